@@ -270,6 +270,8 @@ export default function App() {
                                 ? 'text-green-600 dark:text-green-400'
                                 : message.consensus.verdict === 'split'
                                 ? 'text-yellow-600 dark:text-yellow-400'
+                                : message.consensus.verdict === 'plurality'
+                                ? 'text-orange-600 dark:text-orange-400'
                                 : 'text-red-600 dark:text-red-400'
                             }>
                               {message.consensus.verdict}
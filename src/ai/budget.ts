@@ -0,0 +1,461 @@
+/**
+ * Spending Budgets
+ *
+ * Limits router spend per API caller (per day), per session and for the
+ * whole agent per day. Before the jury fans out, the query's cost is
+ * estimated from model pricing; a query that would exceed a limit is
+ * either rejected or downgraded to the cheaper BUDGET_DOWNGRADE_MODELS.
+ * An admitted query reserves its estimate until it settles, so concurrent
+ * queries cannot all pass the same limit; the actual cost (from the usage
+ * ledger) then replaces the reservation.
+ *
+ * Scopes:
+ * - CALLER: Spend per caller (X-Caller-Id) per UTC day
+ * - SESSION: Spend per session (X-Session-Id), expires with the memory
+ *   session (SESSION_TTL_SECONDS without a query)
+ * - DAILY: Spend of the whole agent per UTC day
+ *
+ * X-Caller-Id and X-Session-Id are not authenticated - a client can send
+ * a new id per query. Caller and session budgets only limit well-behaved
+ * clients; the daily budget is the hard limit.
+ */
+
+import { getModelInfo } from './model-router.js';
+import { getSessionTtlSeconds } from './memory.js';
+import { getDefaultSimilarityStrategyName, getSimilarityJudgeModel } from './similarity.js';
+import { getEmbeddingModel } from './embeddings.js';
+import { getSynthesisModel } from './synthesis.js';
+import { getClaimsModel } from './claims.js';
+import { getReflectionModel } from './reflection.js';
+import { getModerationModel } from './guardrails.js';
+import { getMaxToolRounds } from './tools/registry.js';
+
+export type BudgetScope = 'caller' | 'session' | 'daily';
+export type BudgetPolicy = 'reject' | 'downgrade';
+
+export interface BudgetState {
+  scope: BudgetScope;
+  key: string;
+  limitUsd: number | null;
+  spentUsd: number;
+  /** Estimates held by queries still running */
+  reservedUsd: number;
+  remainingUsd: number | null;
+  /** When the spend resets (sessions: when they expire without another query) */
+  resetsAt: string | null;
+}
+
+export interface BudgetDecision {
+  /** Jury to query (the downgrade models if the budget forced it) */
+  models: string[];
+  estimatedCostUsd: number;
+  /** Original jury when the query was downgraded */
+  downgradedFrom: string[] | null;
+  /** Holds the estimate against the budgets until the query settles */
+  spend: QuerySpend;
+}
+
+export interface QueryCostParams {
+  models: string[];
+  question: string;
+  context?: string;
+  deliberationRounds?: number;
+  similarityStrategy?: string;
+  /** Jurors that must agree before the query returns early (similarity checked as answers arrive) */
+  quorum?: number;
+  /** Jurors may call tools - each tool round is another call with a longer prompt */
+  tools?: boolean;
+  /** Tool rounds per juror (defaults to JURY_TOOL_MAX_ROUNDS) */
+  maxToolRounds?: number;
+  // Optional stages the query runs
+  synthesis?: boolean;
+  claims?: boolean;
+  reflection?: boolean;
+  moderation?: boolean;
+}
+
+/**
+ * A spending budget blocked the query
+ */
+export class SpendingLimitError extends Error {
+  constructor(
+    message: string,
+    public scope: BudgetScope,
+    public limitUsd: number,
+    public spentUsd: number,
+    public estimatedCostUsd: number
+  ) {
+    super(message);
+    this.name = 'SpendingLimitError';
+  }
+}
+
+// Rough token estimate for English text
+const CHARS_PER_TOKEN = 4;
+
+// Moderation verdicts are short JSON replies
+const MODERATION_OUTPUT_TOKENS = 200;
+
+// Tool calls and results added to a juror's prompt per tool round
+// (a document search returns several passages)
+const TOOL_ROUND_TOKENS = 1000;
+
+// Spend per budget key (caller and daily keys include the UTC date)
+const spend = new Map<string, number>();
+
+// Estimates reserved by running queries, per budget key
+const reserved = new Map<string, number>();
+
+// Last query per session budget key (sessions expire like memory sessions)
+const sessionActivity = new Map<string, number>();
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+function parseLimit(value: string | undefined): number | null {
+  if (!value) return null;
+  const limit = parseFloat(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+}
+
+function getLimit(scope: BudgetScope): number | null {
+  switch (scope) {
+    case 'caller':
+      return parseLimit(process.env.BUDGET_CALLER_DAILY_USD);
+    case 'session':
+      return parseLimit(process.env.BUDGET_SESSION_USD);
+    case 'daily':
+      return parseLimit(process.env.BUDGET_DAILY_USD);
+  }
+}
+
+function getBudgetPolicy(): BudgetPolicy {
+  return process.env.BUDGET_POLICY === 'downgrade' ? 'downgrade' : 'reject';
+}
+
+function getDowngradeModels(): string[] {
+  return (process.env.BUDGET_DOWNGRADE_MODELS || '')
+    .split(',')
+    .map(m => m.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check if any spending limit is configured
+ */
+export function isBudgetEnabled(): boolean {
+  return (['caller', 'session', 'daily'] as BudgetScope[]).some(scope => getLimit(scope) !== null);
+}
+
+// ============================================================================
+// SPEND TRACKING
+// ============================================================================
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(): string {
+  const date = new Date();
+  date.setUTCHours(24, 0, 0, 0);
+  return date.toISOString();
+}
+
+function budgetKey(scope: BudgetScope, id: string): string {
+  return scope === 'session' ? `session:${id}` : `${scope}:${id}:${today()}`;
+}
+
+/**
+ * Budget keys that apply to a query
+ */
+function applicableScopes(callerId?: string, sessionId?: string): Array<{ scope: BudgetScope; id: string }> {
+  const scopes: Array<{ scope: BudgetScope; id: string }> = [{ scope: 'daily', id: 'agent' }];
+  if (callerId) scopes.push({ scope: 'caller', id: callerId });
+  if (sessionId) scopes.push({ scope: 'session', id: sessionId });
+  return scopes;
+}
+
+function addAmount(amounts: Map<string, number>, keys: string[], amountUsd: number): void {
+  for (const key of keys) {
+    const total = (amounts.get(key) ?? 0) + amountUsd;
+    // Releasing a reservation can leave float dust behind
+    if (total > 1e-9) {
+      amounts.set(key, total);
+    } else {
+      amounts.delete(key);
+    }
+    if (key.startsWith('session:')) {
+      sessionActivity.set(key, Date.now());
+    }
+  }
+}
+
+/**
+ * Drop caller and daily spend from previous days, and the spend of
+ * sessions idle for longer than the memory session TTL
+ */
+function pruneExpiredSpend(): void {
+  const suffix = `:${today()}`;
+  const sessionCutoff = Date.now() - getSessionTtlSeconds() * 1000;
+
+  for (const key of spend.keys()) {
+    if (!key.startsWith('session:') && !key.endsWith(suffix)) {
+      spend.delete(key);
+    }
+  }
+  for (const [key, lastActivity] of sessionActivity) {
+    // A session with a running query is still active
+    if (lastActivity < sessionCutoff && !reserved.has(key)) {
+      spend.delete(key);
+      sessionActivity.delete(key);
+    }
+  }
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+/**
+ * Current budget state for a caller and session (plus the agent-wide daily budget)
+ */
+export function getBudgetStates(callerId?: string, sessionId?: string): BudgetState[] {
+  pruneExpiredSpend();
+
+  return applicableScopes(callerId, sessionId).map(({ scope, id }) => {
+    const key = budgetKey(scope, id);
+    const limitUsd = getLimit(scope);
+    const spentUsd = roundUsd(spend.get(key) ?? 0);
+    const reservedUsd = roundUsd(reserved.get(key) ?? 0);
+    const lastActivity = sessionActivity.get(key);
+
+    return {
+      scope,
+      key: id,
+      limitUsd,
+      spentUsd,
+      reservedUsd,
+      remainingUsd: limitUsd === null ? null : Math.max(roundUsd(limitUsd - spentUsd - reservedUsd), 0),
+      resetsAt: scope !== 'session'
+        ? nextUtcMidnight()
+        : lastActivity === undefined
+          ? null
+          : new Date(lastActivity + getSessionTtlSeconds() * 1000).toISOString(),
+    };
+  });
+}
+
+/**
+ * Spend of one query against its budgets
+ *
+ * The estimate stays reserved while the query runs. settle() replaces it
+ * with the actual cost; calls that finish after that (background
+ * stragglers and their moderation) are charged through chargeLate().
+ */
+export class QuerySpend {
+  private readonly keys: string[];
+  private reservedUsd: number;
+  private chargedUsd = 0;
+  private settled = false;
+
+  constructor(callerId?: string, sessionId?: string, reservedUsd = 0) {
+    // Keys are fixed at admission - a query running past midnight is charged to the day it started
+    this.keys = applicableScopes(callerId, sessionId).map(({ scope, id }) => budgetKey(scope, id));
+    this.reservedUsd = reservedUsd;
+    addAmount(reserved, this.keys, reservedUsd);
+  }
+
+  /**
+   * Release the reservation and charge the query's actual cost
+   */
+  settle(totalCostUsd: number): void {
+    if (!this.settled) {
+      this.settled = true;
+      addAmount(reserved, this.keys, -this.reservedUsd);
+      this.reservedUsd = 0;
+    }
+    this.charge(totalCostUsd);
+  }
+
+  /**
+   * Charge calls that finished after the query settled
+   * (no-op while it runs - the final settle() includes them)
+   */
+  chargeLate(totalCostUsd: number): void {
+    if (this.settled) {
+      this.charge(totalCostUsd);
+    }
+  }
+
+  private charge(totalCostUsd: number): void {
+    const costUsd = totalCostUsd - this.chargedUsd;
+    if (costUsd <= 0) return;
+
+    this.chargedUsd = totalCostUsd;
+    addAmount(spend, this.keys, costUsd);
+  }
+}
+
+// ============================================================================
+// ESTIMATION AND ENFORCEMENT
+// ============================================================================
+
+type ModelPrices = { input: number; output: number };
+
+async function getPrices(model: string, defaultPrice: number): Promise<ModelPrices> {
+  const pricing = (await getModelInfo(model))?.pricing;
+  return {
+    input: pricing && pricing.input_per_1k > 0 ? pricing.input_per_1k : defaultPrice,
+    output: pricing && pricing.output_per_1k > 0 ? pricing.output_per_1k : defaultPrice,
+  };
+}
+
+function callCost(prices: ModelPrices, promptTokens: number, completionTokens: number): number {
+  return (promptTokens / 1000) * prices.input + (completionTokens / 1000) * prices.output;
+}
+
+/**
+ * Estimate the cost of a query: the jury fan-out (with tool rounds),
+ * deliberation rounds, similarity calls (with quorum checks) and the
+ * optional stages (synthesis, claims, reflection, moderation)
+ *
+ * Prices come from the router's model list or the model catalog; models
+ * without known pricing use BUDGET_DEFAULT_PRICE_PER_1K for input and
+ * output tokens. Every generated answer is assumed to be
+ * BUDGET_EXPECTED_COMPLETION_TOKENS long.
+ */
+export async function estimateQueryCost(params: QueryCostParams): Promise<number> {
+  const defaultPrice = parseFloat(process.env.BUDGET_DEFAULT_PRICE_PER_1K || '0.01');
+  const completionTokens = parseInt(process.env.BUDGET_EXPECTED_COMPLETION_TOKENS || '500', 10);
+  const prices = (model: string) => getPrices(model, defaultPrice);
+
+  const rounds = params.deliberationRounds ?? 0;
+  const jurorCount = params.models.length;
+  const questionTokens = Math.ceil(params.question.length / CHARS_PER_TOKEN);
+  // System prompt overhead is small next to the question and context
+  const promptTokens = questionTokens + Math.ceil((params.context?.length ?? 0) / CHARS_PER_TOKEN) + 500;
+  // All juror answers in one prompt (similarity, synthesis, reflection)
+  const answersTokens = jurorCount * completionTokens;
+
+  let total = 0;
+
+  // Jurors: first answer plus one revision per deliberation round. With tools the
+  // first answer takes up to maxToolRounds + 1 calls, each resending the grown prompt
+  const toolRounds = params.tools ? params.maxToolRounds ?? getMaxToolRounds() : 0;
+  for (const model of params.models) {
+    const modelPrices = await prices(model);
+    for (let round = 0; round <= toolRounds; round++) {
+      total += callCost(modelPrices, promptTokens + round * TOOL_ROUND_TOKENS, completionTokens);
+    }
+    total += rounds * callCost(modelPrices, promptTokens, completionTokens);
+  }
+
+  // Similarity: consensus, agreement per deliberation round, claim alignment
+  const similarityCalls = 1 + (rounds > 0 ? rounds + 1 : 0) + (params.claims ? 1 : 0);
+  const strategy = params.similarityStrategy ?? getDefaultSimilarityStrategyName();
+  if (strategy === 'embedding') {
+    total += similarityCalls * callCost(await prices(getEmbeddingModel()), answersTokens, 0);
+  } else if (strategy === 'llm-judge') {
+    total += similarityCalls * callCost(await prices(getSimilarityJudgeModel()), answersTokens, completionTokens);
+  }
+
+  // Quorum: a check after each answer from the quorum-th until the last juror
+  // (embedded answers are reused by the consensus matrix, a judge rates them all again)
+  const quorum = params.quorum ?? 0;
+  if (quorum > 0 && quorum < jurorCount && strategy === 'llm-judge') {
+    const judgePrices = await prices(getSimilarityJudgeModel());
+    for (let answered = quorum; answered < jurorCount; answered++) {
+      total += callCost(judgePrices, answered * completionTokens, completionTokens);
+    }
+  }
+
+  if (params.synthesis) {
+    total += callCost(await prices(getSynthesisModel()), questionTokens + answersTokens, completionTokens);
+  }
+  if (params.claims) {
+    total += jurorCount * callCost(await prices(getClaimsModel()), questionTokens + completionTokens, completionTokens);
+  }
+  if (params.reflection) {
+    total += callCost(await prices(getReflectionModel()), questionTokens + answersTokens, completionTokens);
+  }
+  if (params.moderation) {
+    // Every juror answer plus the synthesized and refined answers
+    const checks = jurorCount + (params.synthesis ? 1 : 0) + (params.reflection ? 1 : 0);
+    total += checks * callCost(
+      await prices(getModerationModel()),
+      questionTokens + completionTokens,
+      MODERATION_OUTPUT_TOKENS
+    );
+  }
+
+  return roundUsd(total);
+}
+
+/**
+ * Find the first budget the estimated cost would exceed
+ * (spend of running queries counts through their reservations)
+ */
+function findExceededBudget(
+  estimatedCostUsd: number,
+  callerId?: string,
+  sessionId?: string
+): BudgetState | undefined {
+  return getBudgetStates(callerId, sessionId).find(
+    state => state.limitUsd !== null && state.spentUsd + state.reservedUsd + estimatedCostUsd > state.limitUsd
+  );
+}
+
+/**
+ * Check a query against the caller, session and daily budgets and
+ * reserve its estimated cost
+ *
+ * Throws SpendingLimitError if the query does not fit (after trying the
+ * downgrade models when BUDGET_POLICY=downgrade). The caller must settle
+ * the returned spend once the query finishes, also when it fails.
+ */
+export async function enforceBudget(params: QueryCostParams & {
+  callerId?: string;
+  sessionId?: string;
+}): Promise<BudgetDecision> {
+  const { models, callerId, sessionId } = params;
+
+  const estimatedCostUsd = await estimateQueryCost(params);
+  // No await between the check and the reservation - concurrent queries see each other's reservations
+  const exceeded = findExceededBudget(estimatedCostUsd, callerId, sessionId);
+  if (!exceeded) {
+    return {
+      models,
+      estimatedCostUsd,
+      downgradedFrom: null,
+      spend: new QuerySpend(callerId, sessionId, estimatedCostUsd),
+    };
+  }
+
+  // Try the cheaper jury before giving up
+  const downgradeModels = getDowngradeModels();
+  if (getBudgetPolicy() === 'downgrade' && downgradeModels.length > 0) {
+    const downgradedCost = await estimateQueryCost({ ...params, models: downgradeModels });
+    if (!findExceededBudget(downgradedCost, callerId, sessionId)) {
+      console.log(
+        `[Budget] ${exceeded.scope} budget would be exceeded - downgrading to ${downgradeModels.join(', ')}`
+      );
+      return {
+        models: downgradeModels,
+        estimatedCostUsd: downgradedCost,
+        downgradedFrom: models,
+        spend: new QuerySpend(callerId, sessionId, downgradedCost),
+      };
+    }
+  }
+
+  throw new SpendingLimitError(
+    `Query would exceed the ${exceeded.scope} budget ` +
+    `($${exceeded.spentUsd.toFixed(4)} spent and $${exceeded.reservedUsd.toFixed(4)} reserved ` +
+    `of $${exceeded.limitUsd!.toFixed(2)}, estimated $${estimatedCostUsd.toFixed(4)})`,
+    exceeded.scope,
+    exceeded.limitUsd!,
+    exceeded.spentUsd,
+    estimatedCostUsd
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * Query Cancellation
+ *
+ * One AbortSignal shared by every router call of a jury query. It fires when
+ * the caller cancels (e.g. the HTTP client disconnected) or when the query's
+ * deadline passes, so juror, deliberation, synthesis, claim and reflection
+ * calls stop instead of running (and billing) for nobody.
+ *
+ * The stage running at that moment is recorded, and later stages are
+ * skipped. The query then returns what it has as a partial result.
+ *
+ * Output moderation must finish even past the deadline (its answers are
+ * about to be returned), so it uses `cancelSignal`, which only fires when
+ * the caller cancels.
+ */
+
+export type QueryStage =
+  | 'jurors'
+  | 'deliberation'
+  | 'moderation'
+  | 'consensus'
+  | 'synthesis'
+  | 'claims'
+  | 'reflection';
+
+export type InterruptReason = 'deadline' | 'cancelled';
+
+/**
+ * Where and why a query was cut short
+ */
+export interface QueryInterruption {
+  reason: InterruptReason;
+  stage: QueryStage;
+}
+
+/**
+ * Abort reason passed to calls of an interrupted query
+ */
+export class QueryInterruptedError extends Error {
+  constructor(
+    public readonly reason: InterruptReason,
+    public readonly stage: QueryStage
+  ) {
+    super(reason === 'deadline'
+      ? `Query deadline exceeded during ${stage}`
+      : `Query cancelled by the caller during ${stage}`);
+    this.name = 'QueryInterruptedError';
+  }
+}
+
+export class QueryCancellation {
+  private controller = new AbortController();
+  private callerController = new AbortController();
+  private stage: QueryStage = 'jurors';
+  private interruption: QueryInterruption | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private onCallerAbort = () => this.interrupt('cancelled');
+
+  /**
+   * @param callerSignal Cancels the query when it fires
+   * @param deadlineMs Time budget from now (unset = no deadline)
+   */
+  constructor(private callerSignal?: AbortSignal, deadlineMs?: number) {
+    if (callerSignal?.aborted) {
+      this.interrupt('cancelled');
+    } else {
+      callerSignal?.addEventListener('abort', this.onCallerAbort, { once: true });
+    }
+
+    if (deadlineMs !== undefined && !this.interruption) {
+      this.timer = setTimeout(() => this.interrupt('deadline'), deadlineMs);
+    }
+  }
+
+  /**
+   * Signal for the query's router calls
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Signal that ignores the deadline and fires only when the caller cancels
+   */
+  get cancelSignal(): AbortSignal {
+    return this.callerController.signal;
+  }
+
+  /**
+   * Mark the stage that is about to run
+   */
+  enter(stage: QueryStage): void {
+    this.stage = stage;
+  }
+
+  isInterrupted(): boolean {
+    return this.interruption !== undefined;
+  }
+
+  getInterruption(): QueryInterruption | undefined {
+    return this.interruption;
+  }
+
+  /**
+   * Stop the deadline timer and detach from the caller's signal
+   * (call when the query finishes)
+   */
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+  }
+
+  private interrupt(reason: InterruptReason): void {
+    // The caller can still go away after the deadline passed
+    if (reason === 'cancelled' && !this.callerController.signal.aborted) {
+      this.callerController.abort(new QueryInterruptedError(reason, this.stage));
+    }
+    if (this.interruption) return;
+
+    this.interruption = { reason, stage: this.stage };
+    console.warn(
+      `[Cancellation] ${reason === 'deadline' ? 'Deadline exceeded' : 'Caller cancelled'} during ${this.stage}`
+    );
+    this.controller.abort(new QueryInterruptedError(reason, this.stage));
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Router Cassettes
+ *
+ * Record-and-replay of Model Router traffic. In record mode every router
+ * response (status, headers and body) is written to a cassette file keyed
+ * by a hash of the request; in replay mode the router is never contacted
+ * and requests are answered from those files. A disputed verdict can
+ * then be reproduced exactly from the answers the jurors gave at the time.
+ *
+ * The key covers method, endpoint and request body plus the request's
+ * position among identical ones (retries, repeated questions), so every
+ * attempt keeps its own cassette and replay serves them in the recorded
+ * order. Positions count from the start of the process - record each run
+ * into an empty directory. Streamed responses are stored as the raw SSE
+ * text and replayed as a stream.
+ *
+ * Modes (ROUTER_CASSETTE_MODE):
+ * - off: Normal operation (default)
+ * - record: Call the router and write every response to a cassette
+ * - replay: Serve cassettes only; unknown requests fail with 404
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface Cassette {
+  key: string;
+  /** Position among identical requests (0 for the first) */
+  sequence: number;
+  recordedAt: string;
+  request: {
+    method: string;
+    endpoint: string;
+    body: unknown | null;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+/**
+ * Reads and writes cassettes in one directory (one JSON file per request)
+ */
+export class CassetteStore {
+  // Identical requests seen so far, per request hash
+  private sequences = new Map<string, number>();
+
+  constructor(
+    public readonly mode: Exclude<CassetteMode, 'off'>,
+    private directory: string
+  ) {}
+
+  /**
+   * Key of the next request with this method, endpoint and body
+   * (each call advances the request's sequence)
+   */
+  nextKey(method: string, endpoint: string, body: unknown | null): string {
+    const hash = createHash('sha256')
+      .update(JSON.stringify({ method, endpoint, body: body ?? null }))
+      .digest('hex');
+    const sequence = this.sequences.get(hash) ?? 0;
+    this.sequences.set(hash, sequence + 1);
+
+    return `${hash}-${sequence}`;
+  }
+
+  /**
+   * Rebuild the recorded response, or undefined when nothing was recorded
+   */
+  async replay(key: string): Promise<Response | undefined> {
+    let cassette: Cassette;
+    try {
+      cassette = JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as Cassette;
+    } catch {
+      return undefined;
+    }
+
+    return new Response(cassette.response.body, {
+      status: cassette.response.status,
+      headers: cassette.response.headers,
+    });
+  }
+
+  /**
+   * Write a response to its cassette (failures are logged, never thrown)
+   *
+   * Pass a clone - the body is read to the end, which for streams happens
+   * as the caller consumes the original.
+   */
+  async record(
+    key: string,
+    request: Cassette['request'],
+    response: Response
+  ): Promise<void> {
+    try {
+      const cassette: Cassette = {
+        key,
+        sequence: parseInt(key.slice(key.lastIndexOf('-') + 1), 10),
+        recordedAt: new Date().toISOString(),
+        request,
+        response: {
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: await response.text(),
+        },
+      };
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(cassette, null, 2));
+    } catch (error) {
+      console.warn('[Cassette] Recording failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+// Singleton instance (created on first use from env)
+let storeInstance: CassetteStore | null = null;
+
+/**
+ * Get the cassette store, or null when record/replay is off
+ */
+export function getCassetteStore(): CassetteStore | null {
+  const mode = getCassetteMode();
+  if (mode === 'off') return null;
+
+  if (!storeInstance || storeInstance.mode !== mode) {
+    const directory = process.env.ROUTER_CASSETTE_DIR || '.cache/cassettes';
+    storeInstance = new CassetteStore(mode, directory);
+    console.log(`[Cassette] ${mode === 'record' ? 'Recording' : 'Replaying'} router traffic (${directory})`);
+  }
+
+  return storeInstance;
+}
+
+/**
+ * Get the cassette mode from environment variable
+ */
+export function getCassetteMode(): CassetteMode {
+  const mode = process.env.ROUTER_CASSETTE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
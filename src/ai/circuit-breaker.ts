@@ -0,0 +1,263 @@
+/**
+ * Circuit Breaker
+ *
+ * One breaker per model, so a provider outage stops costing every query
+ * the full timeout plus retries. Failures and slow calls over a sliding
+ * window of recent calls open the circuit; calls then fail fast until a
+ * cool-down passes and a single trial call is let through.
+ *
+ * States:
+ * - CLOSED: Calls pass through; outcomes are recorded
+ * - OPEN: Calls are rejected immediately
+ * - HALF_OPEN: One trial call decides between CLOSED and OPEN
+ *
+ * An open circuit turns half-open when its cool-down ends, whether or not
+ * a call arrives, so reported states stay current for idle models.
+ *
+ * Model names come from requests, so the registry is capped: past
+ * MAX_BREAKERS the least recently used closed breaker is dropped.
+ */
+
+import { getMetrics } from '../pap/metrics.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  /** Number of recent calls considered */
+  windowSize: number;
+  /** Calls needed in the window before the circuit can open */
+  minimumCalls: number;
+  /** Failure rate (0-1) that opens the circuit */
+  failureRateThreshold: number;
+  /** Successful calls slower than this count as failures */
+  slowCallMs: number;
+  /** How long the circuit stays open before a trial call */
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  model: string;
+  state: CircuitState;
+  failureRate: number;
+  recentCalls: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  // Recent call outcomes, oldest first (true = failure or slow call)
+  private outcomes: boolean[] = [];
+  private openedAt = 0;
+  private trialInFlight = false;
+  private cooldownTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    public readonly model: string,
+    private config: CircuitBreakerConfig
+  ) {}
+
+  /**
+   * Current state (an expired open circuit reports half-open)
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.openDurationMs) {
+      this.transition('half_open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Ask to make a call; false means fail fast
+   * In half-open state only one trial call is allowed at a time
+   */
+  tryAcquire(): boolean {
+    switch (this.getState()) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half_open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  /**
+   * Record a successful call (slow calls count as failures)
+   */
+  recordSuccess(latencyMs: number): void {
+    if (latencyMs > this.config.slowCallMs) {
+      console.warn(`[CircuitBreaker] Slow call to ${this.model} (${latencyMs}ms)`);
+      this.recordFailure();
+      return;
+    }
+
+    this.trialInFlight = false;
+    if (this.state === 'half_open') {
+      this.outcomes = [];
+      this.transition('closed');
+      return;
+    }
+    this.pushOutcome(false);
+  }
+
+  /**
+   * Record a failed call
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    if (this.state === 'half_open') {
+      this.open();
+      return;
+    }
+
+    this.pushOutcome(true);
+
+    if (
+      this.state === 'closed' &&
+      this.outcomes.length >= this.config.minimumCalls &&
+      this.getFailureRate() >= this.config.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Release a call that ended without an outcome (e.g. cancelled by the caller)
+   */
+  recordCancelled(): void {
+    this.trialInFlight = false;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    return {
+      model: this.model,
+      state,
+      failureRate: Math.round(this.getFailureRate() * 100) / 100,
+      recentCalls: this.outcomes.length,
+      openedAt: state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      retryAt: state === 'open'
+        ? new Date(this.openedAt + this.config.openDurationMs).toISOString()
+        : null,
+    };
+  }
+
+  private getFailureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(failed => failed).length / this.outcomes.length;
+  }
+
+  private pushOutcome(failed: boolean): void {
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.config.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private open(): void {
+    const openedAt = Date.now();
+    this.openedAt = openedAt;
+    this.transition('open');
+
+    // Go half-open when the cool-down ends even if no call comes in -
+    // otherwise the state gauge reports an idle model as open indefinitely
+    clearTimeout(this.cooldownTimer);
+    this.cooldownTimer = setTimeout(() => {
+      if (this.state === 'open' && this.openedAt === openedAt) {
+        this.transition('half_open');
+      }
+    }, this.config.openDurationMs);
+    this.cooldownTimer.unref();
+  }
+
+  private transition(to: CircuitState): void {
+    if (this.state === to) return;
+
+    console.log(`[CircuitBreaker] ${this.model}: ${this.state} -> ${to}`);
+    getMetrics()?.recordCircuitTransition(this.model, to);
+    this.state = to;
+  }
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+// Kept in least recently used order (oldest first)
+const breakers = new Map<string, CircuitBreaker>();
+
+// Registry size before closed breakers are evicted
+const MAX_BREAKERS = 1000;
+
+/**
+ * Read breaker configuration from env
+ */
+function getCircuitBreakerConfig(): CircuitBreakerConfig {
+  return {
+    windowSize: parseInt(process.env.CIRCUIT_WINDOW_SIZE || '10', 10),
+    minimumCalls: parseInt(process.env.CIRCUIT_MIN_CALLS || '5', 10),
+    failureRateThreshold: parseFloat(process.env.CIRCUIT_FAILURE_THRESHOLD || '0.5'),
+    slowCallMs: parseInt(process.env.CIRCUIT_SLOW_CALL_MS || '30000', 10),
+    openDurationMs: parseInt(process.env.CIRCUIT_OPEN_MS || '30000', 10),
+  };
+}
+
+/**
+ * Get (or create) the breaker for a model
+ */
+export function getCircuitBreaker(model: string): CircuitBreaker {
+  let breaker = breakers.get(model);
+  if (breaker) {
+    // Move to the most recently used end
+    breakers.delete(model);
+  } else {
+    breaker = new CircuitBreaker(model, getCircuitBreakerConfig());
+    evictIdleBreaker();
+  }
+  breakers.set(model, breaker);
+  return breaker;
+}
+
+/**
+ * Drop the least recently used closed breaker once the registry is full
+ * (open and half-open breakers are kept - they still guard their model)
+ */
+function evictIdleBreaker(): void {
+  if (breakers.size < MAX_BREAKERS) return;
+
+  for (const [model, breaker] of breakers) {
+    if (breaker.getState() === 'closed') {
+      breakers.delete(model);
+      return;
+    }
+  }
+}
+
+/**
+ * Snapshot of every breaker that has seen a call
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return [...breakers.values()].map(b => b.getSnapshot());
+}
+
+/**
+ * Get the configured substitute for a model
+ * CIRCUIT_SUBSTITUTES format: "gpt-4o=gpt-4o-mini,claude-3-5-sonnet-20241022=claude-3-haiku-20240307"
+ */
+export function getSubstituteModel(model: string): string | undefined {
+  for (const pair of (process.env.CIRCUIT_SUBSTITUTES || '').split(',')) {
+    const [from, to] = pair.split('=').map(s => s.trim());
+    if (from === model && to) return to;
+  }
+  return undefined;
+}
+
+/**
+ * Check if circuit breakers are enabled via environment variable
+ */
+export function isCircuitBreakerEnabled(): boolean {
+  return process.env.ENABLE_CIRCUIT_BREAKER !== 'false';
+}
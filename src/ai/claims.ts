@@ -0,0 +1,269 @@
+/**
+ * Claim-Level Consensus Module
+ *
+ * Breaks each juror's answer into atomic claims, aligns equivalent
+ * claims across jurors, and reports agreement per claim. This shows
+ * exactly which statements every model makes and which are contested,
+ * instead of a single whole-answer agreement score.
+ *
+ * Claim Agreement:
+ * - ALL: Every juror makes the claim
+ * - MAJORITY: More than half of the jurors make the claim
+ * - MINORITY: More than one, but at most half of the jurors
+ * - SINGLE: Only one juror makes the claim
+ *
+ * Jurors whose claims could not be extracted are left out of the support
+ * counts and reported separately.
+ */
+
+import { getModelRouter } from './model-router.js';
+import { calculateSimilarityMatrix } from './similarity.js';
+import type { ModelResponse } from './consensus.js';
+import { toCallUsage, type UsageLedger } from './usage.js';
+
+export type ClaimAgreement = 'all' | 'majority' | 'minority' | 'single';
+
+export interface ClaimVariant {
+  model: string;
+  text: string;
+}
+
+export interface ClaimConsensus {
+  /** Representative wording of the claim */
+  claim: string;
+  agreement: ClaimAgreement;
+  /** Models that make this claim */
+  supportingModels: string[];
+  /** Fraction of jurors with extracted claims that make this claim (0-1) */
+  support: number;
+  /** Each supporting model's own wording */
+  variants: ClaimVariant[];
+}
+
+export interface ClaimConsensusResult {
+  claims: ClaimConsensus[];
+  /** Jurors whose claim extraction failed (not counted in support) */
+  failedModels: string[];
+}
+
+// Maximum claims extracted per answer
+const MAX_CLAIMS_PER_ANSWER = 12;
+
+// Agreement ordering for sorting (strongest first)
+const AGREEMENT_ORDER: Record<ClaimAgreement, number> = {
+  all: 0,
+  majority: 1,
+  minority: 2,
+  single: 3,
+};
+
+// Claim extraction prompt template
+const EXTRACTION_PROMPT = `Break the following answer into atomic factual claims.
+
+QUESTION:
+{question}
+
+ANSWER:
+{answer}
+
+Rules:
+- Each claim is one self-contained statement that can be true or false on its own
+- Resolve pronouns so each claim makes sense without the others
+- Skip filler, hedging phrases and restatements of the question
+- At most ${MAX_CLAIMS_PER_ANSWER} claims, most important first
+
+Respond with ONLY valid JSON (no markdown, no explanation):
+{"claims": ["claim 1", "claim 2"]}`;
+
+export interface ClaimConsensusOptions {
+  similarityStrategy?: string;
+  signal?: AbortSignal;
+  /** Records extraction (stage 'claims') and claim alignment (stage 'similarity') calls */
+  ledger?: UsageLedger;
+}
+
+/**
+ * Extract atomic claims from a single answer
+ */
+export async function extractClaims(
+  question: string,
+  answer: string,
+  options: Pick<ClaimConsensusOptions, 'signal' | 'ledger'> = {}
+): Promise<string[]> {
+  const router = getModelRouter();
+  if (!router) {
+    throw new Error('Model Router not initialized');
+  }
+
+  const claimsModel = getClaimsModel();
+  const response = await router.chat({
+    model: claimsModel,
+    messages: [
+      { role: 'system', content: 'You extract atomic claims from text. Respond only with valid JSON.' },
+      {
+        role: 'user',
+        content: EXTRACTION_PROMPT
+          .replace('{question}', question.slice(0, 1000))
+          .replace('{answer}', answer.slice(0, 4000)),
+      },
+    ],
+    temperature: 0,
+    max_tokens: 1024,
+  }, { signal: options.signal });
+  // Billed even if the reply cannot be parsed
+  options.ledger?.record('claims', claimsModel, toCallUsage(response));
+
+  const content = response.choices[0]?.message?.content || '';
+
+  // Parse JSON response, handling potential markdown code blocks
+  let jsonContent = content;
+  if (content.includes('```json')) {
+    jsonContent = content.split('```json')[1].split('```')[0].trim();
+  } else if (content.includes('```')) {
+    jsonContent = content.split('```')[1].split('```')[0].trim();
+  }
+
+  const parsed = JSON.parse(jsonContent);
+  if (!Array.isArray(parsed.claims)) {
+    throw new Error('Claim extraction returned no claims array');
+  }
+
+  return parsed.claims
+    .filter((c: unknown): c is string => typeof c === 'string' && c.trim().length > 0)
+    .map((c: string) => c.trim())
+    .slice(0, MAX_CLAIMS_PER_ANSWER);
+}
+
+/**
+ * Classify how many jurors support a claim
+ */
+function classifyAgreement(supportCount: number, jurorCount: number): ClaimAgreement {
+  if (supportCount >= jurorCount) return 'all';
+  if (supportCount === 1) return 'single';
+  if (supportCount > jurorCount / 2) return 'majority';
+  return 'minority';
+}
+
+/**
+ * Calculate claim-level consensus across juror answers
+ *
+ * Claims from different jurors are aligned greedily: each claim joins the
+ * most similar existing claim group (above CLAIM_MATCH_THRESHOLD) that has
+ * no claim from the same model yet, otherwise it starts a new group.
+ */
+export async function calculateClaimConsensus(
+  question: string,
+  responses: ModelResponse[],
+  options: ClaimConsensusOptions = {}
+): Promise<ClaimConsensusResult> {
+  const successfulResponses = responses.filter(r => r.success && r.answer);
+  if (successfulResponses.length === 0) return { claims: [], failedModels: [] };
+
+  // Step 1: Extract claims from every answer in parallel (null = extraction failed)
+  const extracted = await Promise.all(
+    successfulResponses.map(async (response): Promise<ClaimVariant[] | null> => {
+      try {
+        const claims = await extractClaims(question, response.answer, options);
+        return claims.map(text => ({ model: response.model, text }));
+      } catch (error) {
+        console.warn(
+          `[Claims] Extraction failed for ${response.model}:`,
+          error instanceof Error ? error.message : error
+        );
+        return null;
+      }
+    })
+  );
+
+  const failedModels = successfulResponses
+    .filter((_, index) => extracted[index] === null)
+    .map(r => r.model);
+  const allClaims = extracted.flatMap(claims => claims ?? []);
+  if (allClaims.length === 0) return { claims: [], failedModels };
+
+  // Step 2: Align claims across jurors by similarity
+  const { similarities } = await calculateSimilarityMatrix(
+    allClaims.map(c => c.text),
+    options.similarityStrategy,
+    { ledger: options.ledger, signal: options.signal }
+  );
+  const matchThreshold = getClaimMatchThreshold();
+
+  const groups: number[][] = [];
+  for (let i = 0; i < allClaims.length; i++) {
+    let bestGroup = -1;
+    let bestScore = matchThreshold;
+
+    for (let g = 0; g < groups.length; g++) {
+      // A model can support each claim group at most once
+      if (groups[g].some(index => allClaims[index].model === allClaims[i].model)) continue;
+
+      // Average similarity to the claims already in the group
+      const score =
+        groups[g].reduce((sum, index) => sum + similarities[i][index], 0) / groups[g].length;
+
+      if (score >= bestScore) {
+        bestScore = score;
+        bestGroup = g;
+      }
+    }
+
+    if (bestGroup >= 0) {
+      groups[bestGroup].push(i);
+    } else {
+      groups.push([i]);
+    }
+  }
+
+  // Step 3: Report agreement per claim group (a failed extraction is no vote against a claim)
+  const jurorCount = successfulResponses.length - failedModels.length;
+
+  const claims = groups
+    .map((group): ClaimConsensus => {
+      const variants = group.map(index => allClaims[index]);
+      const supportingModels = variants.map(v => v.model);
+
+      // The most central wording represents the group
+      const representative = group.reduce((best, index) => {
+        const centrality = (candidate: number) =>
+          group.reduce((sum, other) => sum + similarities[candidate][other], 0);
+        return centrality(index) > centrality(best) ? index : best;
+      }, group[0]);
+
+      return {
+        claim: allClaims[representative].text,
+        agreement: classifyAgreement(supportingModels.length, jurorCount),
+        supportingModels,
+        support: Math.round((supportingModels.length / jurorCount) * 100) / 100,
+        variants,
+      };
+    })
+    .sort(
+      (a, b) =>
+        AGREEMENT_ORDER[a.agreement] - AGREEMENT_ORDER[b.agreement] || b.support - a.support
+    );
+
+  return { claims, failedModels };
+}
+
+/**
+ * Model that extracts the claims
+ */
+export function getClaimsModel(): string {
+  return process.env.CLAIMS_MODEL || 'gemini-1.5-flash';
+}
+
+/**
+ * Get the similarity needed to treat two claims as the same claim
+ */
+function getClaimMatchThreshold(): number {
+  return parseFloat(process.env.CLAIM_MATCH_THRESHOLD || '0.7');
+}
+
+/**
+ * Check if claim-level consensus is enabled via environment variable
+ * Disabled by default - it costs one extra router call per juror
+ */
+export function isClaimConsensusEnabled(): boolean {
+  return process.env.ENABLE_CLAIM_CONSENSUS === 'true';
+}
@@ -2,52 +2,139 @@
  * Consensus Engine
  *
  * Calculates agreement between multiple AI model responses using
- * semantic similarity scoring.
+ * pluggable similarity strategies (embeddings by default, with TF-IDF
+ * as the offline fallback).
+ *
+ * Answers are clustered into factions (models whose answers agree with
+ * each other at the similarity strategy's split threshold). Verdicts follow the vote tally:
  *
  * Verdict Types:
- * - UNANIMOUS: All models agree (score >= 0.9)
- * - SPLIT: Majority agrees (score >= 0.6 and < 0.9)
- * - NO_CONSENSUS: Significant disagreement (score < 0.6)
+ * - UNANIMOUS: All models in one faction (score at the strategy's unanimous threshold)
+ * - SPLIT: A majority faction exists (more than half of the models)
+ * - PLURALITY: Largest faction has no majority, but outnumbers every other faction
+ * - NO_CONSENSUS: No faction stands out (significant disagreement)
+ *
+ * Structured answer types (boolean, choice, number, json) skip text
+ * similarity entirely and count votes instead.
  *
  * Enhanced with:
+ * - Deliberation: Multi-round debate before scoring
+ * - Synthesis: Merged answer from the majority faction
+ * - Claims: Per-claim agreement across jurors
  * - Guardrails: Input/output validation
  * - Reflection: Answer quality improvement
  * - Memory: Session context and learning
  */
 
-import natural from 'natural';
-import { getModelRouter } from './model-router.js';
+import { getModelRouter, type CacheSource } from './model-router.js';
+import type { CallPriority } from './scheduler.js';
+import { QueryCancellation, QueryInterruption } from './cancellation.js';
+import { getPanel, resolveModelAliases } from './panels.js';
+import {
+  moderateAnswers,
+  moderateJurorAnswers,
+  isOutputModerationEnabled,
+  getModerationPolicy,
+  ModerationOutcome,
+  ModerationPolicy,
+} from './moderation.js';
 import { getMetrics } from '../pap/metrics.js';
 import {
   validateInput,
   isGuardrailsEnabled,
+  getModerationModel,
   ENHANCED_JURY_PROMPT,
 } from './guardrails.js';
 import {
   reflectOnConsensus,
   shouldApplyReflection,
   isReflectionEnabled,
+  getReflectionModel,
   QUALITY_THRESHOLD,
 } from './reflection.js';
 import {
   getMemoryManager,
   isMemoryEnabled,
 } from './memory.js';
-
-const TfIdf = natural.TfIdf;
-const WordTokenizer = natural.WordTokenizer;
-const tokenizer = new WordTokenizer();
+import {
+  calculateSimilarityMatrix,
+  calculateSimilarityRow,
+  getSimilarityThresholds,
+  type SimilarityOptions,
+} from './similarity.js';
+import { RetryBudget, getDefaultRetryBudget } from './retry-policy.js';
+import { enforceBudget, isBudgetEnabled, BudgetDecision, QuerySpend } from './budget.js';
+import { UsageLedger, toCallUsage, sumCallUsage, CallUsage, QueryUsage } from './usage.js';
+import { fitJurorPrompt, isPromptFittingEnabled, PromptFit } from './prompt-fitting.js';
+import {
+  chatWithTools,
+  resolveJuryTools,
+  isJuryToolsEnabled,
+  getDefaultJuryTools,
+  getMaxToolRounds,
+  JURY_TOOLS_PROMPT,
+  JurorDocument,
+  ToolCallRecord,
+} from './tools/registry.js';
+import {
+  getCircuitBreaker,
+  getSubstituteModel,
+  isCircuitBreakerEnabled,
+} from './circuit-breaker.js';
+import { clusterFactions, determineVerdict, formatTally, Faction } from './factions.js';
+import {
+  buildStructuredInstructions,
+  parseStructuredAnswer,
+  formatStructuredValue,
+  calculateStructuredConsensus,
+  groupStructuredVotes,
+  AnswerType,
+  StructuredConsensus,
+} from './structured.js';
+import {
+  synthesizeConsensus,
+  isSynthesisEnabled,
+  SynthesisResult,
+} from './synthesis.js';
+import {
+  deliberate,
+  getDefaultDeliberationRounds,
+  DeliberationResult,
+} from './deliberation.js';
+import {
+  calculateClaimConsensus,
+  isClaimConsensusEnabled,
+  ClaimConsensus,
+} from './claims.js';
 
 export interface ModelResponse {
   model: string;
   answer: string;
   reasoning?: string;
+  // Parsed value when a structured answer type was requested
+  structuredAnswer?: unknown;
   latencyMs: number;
+  // Split of latencyMs: waiting for a scheduler slot vs the rest of the call
+  latencyBreakdown?: { queueMs: number; modelMs: number };
   success: boolean;
   error?: string;
+  // Still pending when the quorum was reached
+  straggler?: boolean;
+  // Juror this model replaced because its circuit was open
+  substituteFor?: string;
+  // Tokens and cost of the juror call
+  usage?: CallUsage;
+  // Cache that answered every call of the juror (local response cache or router cache)
+  cacheSource?: CacheSource;
+  // How the prompt was fitted to the model's context window
+  promptFit?: PromptFit;
+  // Tools the juror called before answering
+  toolCalls?: ToolCallRecord[];
+  // Concerns when output moderation flagged the answer
+  moderationFlag?: string;
 }
 
-export type VerdictType = 'unanimous' | 'split' | 'no_consensus';
+export type VerdictType = 'unanimous' | 'split' | 'plurality' | 'no_consensus';
 export type ConfidenceLevel = 'high' | 'medium' | 'low';
 
 export interface ConsensusResult {
@@ -57,186 +144,576 @@ export interface ConsensusResult {
   responses: ModelResponse[];
   dissent?: ModelResponse;
   consensusAnswer?: string;
+  // Single most central answer (kept for comparison when synthesis replaces it)
+  medoidAnswer?: string;
+  // Synthesis fields
+  synthesis?: SynthesisResult;
+  // Factions of agreeing models, largest first
+  factions?: Faction[];
+  // Vote distribution / numeric spread for structured answer types
+  structured?: StructuredConsensus;
+  // Quorum early-return fields
+  quorum?: {
+    required: number;
+    met: boolean;
+    stragglerPolicy: StragglerPolicy;
+    stragglers: string[];
+  };
+  // Similarity strategy that produced the agreement score
+  similarityBackend?: string;
+  // Deliberation fields (responses hold each juror's final-round answer)
+  deliberation?: DeliberationResult;
+  // Claim-level consensus fields
+  claims?: ClaimConsensus[];
+  // Jurors whose claims could not be extracted (left out of claim support)
+  claimExtractionFailed?: string[];
   // Reflection pattern fields
   reflectionApplied?: boolean;
   qualityScore?: number;
   originalConsensusAnswer?: string;
+  // Tokens and cost of every router call made for this query
+  usage?: QueryUsage;
   // Memory pattern fields
   sessionId?: string;
   memoryContextUsed?: boolean;
+  // Budget fields (estimate before fan-out, jury replaced when downgraded)
+  budget?: {
+    estimatedCostUsd: number;
+    downgradedFrom: string[] | null;
+  };
   // Guardrails fields
   guardrailsApplied?: boolean;
+  // Named panel the jury came from
+  panel?: string;
+  // Output moderation checks and what the policy did
+  moderation?: ModerationOutcome;
+  // Set when a deadline or the caller cut the query short (later stages skipped)
+  partial?: QueryInterruption;
+}
+
+// Jury used when the caller does not choose models
+const DEFAULT_JURY_MODELS = ['gpt-4o', 'claude-3-5-sonnet-20241022', 'gemini-1.5-flash'];
+
+export type StragglerPolicy = 'abort' | 'background';
+
+// Progress events emitted while a jury query runs (e.g. for SSE streaming)
+export type JuryEvent =
+  | { type: 'juror_started'; model: string }
+  | {
+      type: 'juror_completed';
+      model: string;
+      success: boolean;
+      answer: string;
+      latencyMs: number;
+      error?: string;
+    }
+  | {
+      type: 'consensus_computed';
+      verdict: VerdictType;
+      confidence: ConfidenceLevel;
+      agreementScore: number;
+      consensusAnswer?: string;
+      voteTally?: string;
+    }
+  | {
+      type: 'reflection_completed';
+      applied: boolean;
+      qualityScore?: number;
+      consensusAnswer?: string;
+    };
+
+export type JuryEventHandler = (event: JuryEvent) => void;
+
+/**
+ * Progress events without answer text
+ * (for moderation policies that may withhold answers events report before the checks)
+ */
+function withoutAnswerText(onEvent: JuryEventHandler | undefined): JuryEventHandler | undefined {
+  if (!onEvent) return undefined;
+
+  return event => {
+    if (event.type === 'juror_completed') {
+      onEvent({ ...event, answer: '' });
+    } else if (event.type === 'consensus_computed' || event.type === 'reflection_completed') {
+      onEvent({ ...event, consensusAnswer: undefined });
+    } else {
+      onEvent(event);
+    }
+  };
+}
+
+/**
+ * Emit a progress event - a failing listener never breaks the query
+ */
+function emitEvent(onEvent: JuryEventHandler | undefined, event: JuryEvent): void {
+  if (!onEvent) return;
+  try {
+    onEvent(event);
+  } catch (error) {
+    console.warn(`[Consensus] Event listener failed on ${event.type}:`, error);
+  }
+}
+
+export interface QueryOptions {
+  answerType?: AnswerType;
+  /** Return as soon as this many jurors agree (0 or unset waits for all) */
+  quorum?: number;
+  /** What to do with jurors still pending when the quorum is met */
+  stragglerPolicy?: StragglerPolicy;
+  /** Called when a background straggler finishes after the quorum return */
+  onLateResponse?: (response: ModelResponse) => void;
+  similarityStrategy?: string;
+  onEvent?: JuryEventHandler;
+  /** Retries shared by all jurors (defaults to QUERY_RETRY_BUDGET) */
+  retryBudget?: RetryBudget;
+  /** Records each juror call's tokens and cost (including late stragglers) */
+  ledger?: UsageLedger;
+  /** Skip the response cache and always query the jurors */
+  bypassCache?: boolean;
+  /** Session memory, sent with the context (dropped first when a prompt is too large) */
+  memory?: string;
+  /** Fit prompts to each model's context window (defaults to ENABLE_PROMPT_FITTING) */
+  fitPrompts?: boolean;
+  /** Built-in tools jurors may call before answering (none when unset) */
+  tools?: string[];
+  /** Documents for the search_documents tool */
+  documents?: JurorDocument[];
+  /** Scheduling priority of the juror calls (default: normal) */
+  priority?: CallPriority;
+  /** Aborts every juror call (query deadline or caller gone) */
+  signal?: AbortSignal;
+  /** Embedding vectors of the answers, shared with the query's later similarity calls */
+  embeddings?: Map<string, number[]>;
 }
 
-// Consensus thresholds
-const THRESHOLDS = {
-  UNANIMOUS: 0.9,    // >= 0.9 for unanimous
-  SPLIT: 0.6,        // >= 0.6 and < 0.9 for split
-  // < 0.6 for no_consensus
-};
+/**
+ * Record per-model metrics for a completed juror call
+ */
+function recordModelMetrics(result: ModelResponse): void {
+  const metrics = getMetrics();
+  if (!metrics) return;
+
+  metrics.recordQuery({
+    success: result.success,
+    latencyMs: result.latencyMs,
+    modelResults: [
+      {
+        model: result.model,
+        success: result.success,
+        latencyMs: result.latencyMs,
+      },
+    ],
+  });
+}
+
+/**
+ * Checks whether at least `quorum` answered jurors agree
+ *
+ * Structured answers agree by vote; free text by faction clustering. The
+ * similarity matrix grows with the answers: the first check scores the
+ * answers so far, later checks score only each new answer against the
+ * earlier ones (embedded answers are not embedded again).
+ */
+class QuorumTracker {
+  private readonly answers: ModelResponse[] = [];
+  private similarities: number[][] = [];
+  private backend?: string;
+  private readonly similarityOptions: SimilarityOptions;
+
+  constructor(private readonly quorum: number, private readonly options: QueryOptions) {
+    this.similarityOptions = {
+      ledger: options.ledger,
+      signal: options.signal,
+      embeddings: options.embeddings ?? new Map(),
+    };
+  }
+
+  async check(answered: ModelResponse[]): Promise<boolean> {
+    if (answered.length < this.quorum) return false;
+
+    if (this.options.answerType) {
+      const voters = answered.filter(r => r.structuredAnswer !== undefined);
+      const groups = groupStructuredVotes(voters, this.options.answerType);
+      return (groups[0]?.length ?? 0) >= this.quorum;
+    }
+
+    await this.add(answered.filter(r => !this.answers.includes(r)));
+    const { split } = getSimilarityThresholds(this.backend!);
+    const factions = clusterFactions(this.answers, this.similarities, split);
+    return factions[0].size >= this.quorum;
+  }
+
+  private async add(added: ModelResponse[]): Promise<void> {
+    if (this.answers.length === 0) {
+      await this.rescore(added, this.options.similarityStrategy);
+      return;
+    }
+
+    for (const response of added) {
+      const { scores, strategy } = await calculateSimilarityRow(
+        response.answer,
+        this.answers.map(r => r.answer),
+        this.options.similarityStrategy,
+        this.similarityOptions
+      );
+
+      if (strategy !== this.backend) {
+        // The strategy fell back - scores of different strategies don't mix
+        await this.rescore([...this.answers, response], strategy);
+        continue;
+      }
+      this.similarities.forEach((row, i) => row.push(scores[i]));
+      this.similarities.push([...scores, 1]);
+      this.answers.push(response);
+    }
+  }
+
+  private async rescore(answers: ModelResponse[], strategyName?: string): Promise<void> {
+    const { similarities, strategy } = await calculateSimilarityMatrix(
+      answers.map(r => r.answer),
+      strategyName,
+      this.similarityOptions
+    );
+    this.answers.splice(0, this.answers.length, ...answers);
+    this.similarities = similarities;
+    this.backend = strategy;
+  }
+}
+
+/**
+ * Replace jurors whose circuit is open with their configured substitute
+ * Jurors without a usable substitute stay on the jury and fail fast
+ */
+function substituteOpenCircuits(models: string[]): {
+  models: string[];
+  substitutions: Map<string, string>;
+} {
+  const substitutions = new Map<string, string>();
+  if (!isCircuitBreakerEnabled()) return { models, substitutions };
+
+  const jury = models.map(model => {
+    if (getCircuitBreaker(model).getState() !== 'open') return model;
+
+    const substitute = getSubstituteModel(model);
+    if (
+      !substitute ||
+      models.includes(substitute) ||
+      substitutions.has(substitute) ||
+      getCircuitBreaker(substitute).getState() === 'open'
+    ) {
+      return model;
+    }
+
+    console.log(`[Consensus] Circuit open for ${model}, substituting ${substitute}`);
+    substitutions.set(substitute, model);
+    return substitute;
+  });
+
+  return { models: jury, substitutions };
+}
+
+// Output tokens requested per juror answer
+const JUROR_MAX_TOKENS = 2048;
+
+/**
+ * Build the juror's user message (memory comes before the caller's context)
+ */
+function buildUserMessage(question: string, context?: string, memory?: string): string {
+  const fullContext = [memory, context].filter(Boolean).join('\n\n');
+  return fullContext
+    ? `Context: ${fullContext}\n\nQuestion: ${question}`
+    : question;
+}
 
 /**
  * Query all specified models in parallel
+ *
+ * With a quorum, returns as soon as `quorum` answers agree. Jurors still
+ * pending at that point are flagged as stragglers and either aborted or
+ * left to finish in the background (reported through onLateResponse).
  */
 export async function queryAllModels(
   question: string,
-  models: string[] = ['gpt-4o', 'claude-3-5-sonnet-20241022', 'gemini-1.5-flash'],
-  context?: string
+  requestedModels: string[] = DEFAULT_JURY_MODELS,
+  context?: string,
+  options: QueryOptions = {}
 ): Promise<ModelResponse[]> {
+  const { answerType, quorum = 0, stragglerPolicy = 'abort', onLateResponse, onEvent } = options;
+  const { models, substitutions } = substituteOpenCircuits(requestedModels);
+  const retryBudget = options.retryBudget ?? new RetryBudget(getDefaultRetryBudget());
+
   const router = getModelRouter();
   if (!router) {
     throw new Error('Model Router not initialized');
   }
 
-  // Build user message with optional context
-  const userMessage = context
-    ? `Context: ${context}\n\nQuestion: ${question}`
-    : question;
+  const fitPrompts = options.fitPrompts ?? isPromptFittingEnabled();
+  const toolContext = { documents: options.documents ?? [] };
+  const tools = options.tools?.length ? resolveJuryTools(options.tools, toolContext) : [];
+
+  // Structured answer types append output format instructions
+  const systemPrompt = [
+    ENHANCED_JURY_PROMPT,
+    tools.length > 0 ? JURY_TOOLS_PROMPT : '',
+    answerType ? buildStructuredInstructions(answerType) : '',
+  ].filter(Boolean).join('\n\n');
+
+  const queryStartTime = Date.now();
+  const controllers = models.map(() => new AbortController());
+  const settled: Array<ModelResponse | undefined> = new Array(models.length);
+  let quorumReturned = false;
+
+  // Cancelling the query aborts every juror still running
+  const abortAll = () => controllers.forEach(controller => controller.abort(options.signal!.reason));
+  if (options.signal?.aborted) {
+    abortAll();
+  } else {
+    options.signal?.addEventListener('abort', abortAll, { once: true });
+  }
 
   // Query all models in parallel
-  const promises = models.map(async (model): Promise<ModelResponse> => {
+  const promises = models.map(async (model, index): Promise<ModelResponse> => {
     const modelStartTime = Date.now();
+    let result: ModelResponse;
+
+    emitEvent(onEvent, { type: 'juror_started', model });
+
+    let promptFit: PromptFit | undefined;
+    // Usage of each router call (several with tool rounds)
+    let callUsages: CallUsage[] = [];
 
     try {
-      const response = await router.chat({
+      // Trim memory and context to the model's context window
+      const prompt = fitPrompts
+        ? await fitJurorPrompt({
+            model,
+            systemPrompt,
+            question,
+            context,
+            memory: options.memory,
+            maxOutputTokens: JUROR_MAX_TOKENS,
+          })
+        : { context, memory: options.memory, maxOutputTokens: JUROR_MAX_TOKENS };
+      promptFit = prompt.fit;
+
+      const request = {
         model,
         messages: [
-          { role: 'system', content: ENHANCED_JURY_PROMPT },
-          { role: 'user', content: userMessage },
+          { role: 'system' as const, content: systemPrompt },
+          { role: 'user' as const, content: buildUserMessage(question, prompt.context, prompt.memory) },
         ],
         temperature: 0.3, // Lower temperature for consistency
-        max_tokens: 2048,
-      });
+        max_tokens: prompt.maxOutputTokens,
+      };
+      const chatOptions = {
+        signal: controllers[index].signal,
+        retryBudget,
+        cache: !options.bypassCache,
+        priority: options.priority,
+      };
 
-      const answer = response.choices[0]?.message?.content || '';
+      // With tools, the juror may call them over several rounds before answering
+      const { response, responses, toolCalls } = tools.length > 0
+        ? await chatWithTools({ provider: router, request, options: chatOptions, tools, context: toolContext })
+        : { response: await router.chat(request, chatOptions), responses: undefined, toolCalls: undefined };
+      callUsages = (responses ?? [response]).map(toCallUsage);
+      const queueMs = (responses ?? [response])
+        .reduce((sum, r) => sum + (r.pap_metadata?.queue_ms ?? 0), 0);
 
-      return {
+      const answer = response.choices[0]?.message?.content || '';
+      const latencyMs = Date.now() - modelStartTime;
+      const usage = sumCallUsage(callUsages);
+      result = {
         model,
         answer,
-        latencyMs: Date.now() - modelStartTime,
+        latencyMs,
+        latencyBreakdown: { queueMs, modelMs: Math.max(0, latencyMs - queueMs) },
         success: true,
+        usage,
+        cacheSource: usage?.cached ? usage.cacheSource : undefined,
+        toolCalls: toolCalls?.length ? toolCalls : undefined,
       };
+
+      if (answerType && answer) {
+        try {
+          const { value, reasoning } = parseStructuredAnswer(answer, answerType);
+          result = {
+            ...result,
+            answer: formatStructuredValue(value, answerType),
+            reasoning,
+            structuredAnswer: value,
+          };
+        } catch (error) {
+          // Keep the raw answer; the juror is reported as an invalid vote
+          console.warn(
+            `[Consensus] Model ${model} returned an invalid ${answerType.type} answer:`,
+            error instanceof Error ? error.message : error
+          );
+        }
+      }
     } catch (error) {
-      console.error(`[Consensus] Model ${model} failed:`, error);
-      return {
+      result = {
         model,
         answer: '',
         latencyMs: Date.now() - modelStartTime,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
-    }
-  });
 
-  const results = await Promise.all(promises);
-
-  // Record metrics for each model
-  const metrics = getMetrics();
-  if (metrics) {
-    for (const result of results) {
-      metrics.recordQuery({
-        success: result.success,
-        latencyMs: result.latencyMs,
-        modelResults: [
-          {
-            model: result.model,
-            success: result.success,
-            latencyMs: result.latencyMs,
-          },
-        ],
-      });
+      if (options.signal?.aborted) {
+        // Cut short by the query deadline or the caller - still settles for the quorum check
+        const reason = options.signal.reason;
+        result.error = reason instanceof Error ? reason.message : 'Query cancelled';
+      } else if (controllers[index].signal.aborted) {
+        // Aborted after the quorum was met - not a model failure, but calls it made are still billed
+        for (const usage of callUsages) {
+          options.ledger?.record('juror', model, usage);
+        }
+        return { ...result, straggler: true, error: 'Cancelled after quorum was reached' };
+      } else {
+        console.error(`[Consensus] Model ${model} failed:`, error);
+      }
     }
-  }
-
-  return results;
-}
-
-/**
- * Calculate semantic similarity between two text strings
- * Uses TF-IDF cosine similarity
- */
-function calculateSimilarity(text1: string, text2: string): number {
-  if (!text1 || !text2) return 0;
-
-  // Tokenize and normalize
-  const tokens1 = tokenizer.tokenize(text1.toLowerCase()) || [];
-  const tokens2 = tokenizer.tokenize(text2.toLowerCase()) || [];
 
-  if (tokens1.length === 0 || tokens2.length === 0) return 0;
-
-  // Create TF-IDF instance
-  const tfidf = new TfIdf();
-  tfidf.addDocument(tokens1);
-  tfidf.addDocument(tokens2);
+    if (substitutions.has(model)) {
+      result.substituteFor = substitutions.get(model);
+    }
+    result.promptFit = promptFit;
 
-  // Calculate term vectors
-  const allTerms = new Set([...tokens1, ...tokens2]);
-  const vector1: number[] = [];
-  const vector2: number[] = [];
+    // A cancelled call says nothing about the model
+    if (result.success || !options.signal?.aborted) {
+      recordModelMetrics(result);
+    }
+    for (const usage of callUsages) {
+      options.ledger?.record('juror', model, usage);
+    }
+    settled[index] = result;
+
+    emitEvent(onEvent, {
+      type: 'juror_completed',
+      model,
+      success: result.success,
+      answer: result.answer,
+      latencyMs: result.latencyMs,
+      error: result.error,
+    });
 
-  for (const term of allTerms) {
-    let score1 = 0;
-    let score2 = 0;
+    if (quorumReturned) {
+      console.log(`[Consensus] Straggler ${model} finished after quorum (${result.latencyMs}ms)`);
+      onLateResponse?.({ ...result, straggler: true });
+    }
 
-    tfidf.tfidfs(term, (i, measure) => {
-      if (i === 0) score1 = measure;
-      if (i === 1) score2 = measure;
-    });
+    return result;
+  });
 
-    vector1.push(score1);
-    vector2.push(score2);
+  if (!quorum || quorum >= models.length) {
+    return Promise.all(promises);
   }
 
-  // Cosine similarity
-  const dotProduct = vector1.reduce((sum, val, i) => sum + val * vector2[i], 0);
-  const magnitude1 = Math.sqrt(vector1.reduce((sum, val) => sum + val * val, 0));
-  const magnitude2 = Math.sqrt(vector2.reduce((sum, val) => sum + val * val, 0));
+  // Resolve when the quorum is met or every juror has finished
+  const tracker = new QuorumTracker(quorum, options);
+  return new Promise<ModelResponse[]>((resolve) => {
+    let checks = Promise.resolve();
+
+    for (const promise of promises) {
+      promise.then(() => {
+        // Serialize checks - similarity may itself be a router call
+        checks = checks.then(async () => {
+          if (quorumReturned) return;
+
+          const finished = settled.filter((r): r is ModelResponse => r !== undefined);
+          if (finished.length === models.length) {
+            quorumReturned = true;
+            resolve(finished);
+            return;
+          }
+
+          const answered = finished.filter(r => r.success && r.answer);
+          let met = false;
+          try {
+            met = await tracker.check(answered);
+          } catch (error) {
+            console.warn('[Consensus] Quorum check failed:', error instanceof Error ? error.message : error);
+          }
+          if (!met || quorumReturned) return;
+
+          quorumReturned = true;
+          const stragglers = models.filter((_, i) => settled[i] === undefined);
+          console.log(
+            `[Consensus] Quorum of ${quorum} reached after ${Date.now() - queryStartTime}ms, ` +
+            `${stragglerPolicy === 'abort' ? 'aborting' : 'backgrounding'} ${stragglers.join(', ')}`
+          );
+
+          resolve(models.map((model, i) => settled[i] ?? {
+            model,
+            answer: '',
+            latencyMs: Date.now() - queryStartTime,
+            success: false,
+            error: 'Still pending when quorum was reached',
+            straggler: true,
+            substituteFor: substitutions.get(model),
+          }));
+
+          if (stragglerPolicy === 'abort') {
+            models.forEach((_, i) => {
+              if (settled[i] === undefined) controllers[i].abort();
+            });
+          }
+        });
+      });
+    }
+  });
+}
 
-  if (magnitude1 === 0 || magnitude2 === 0) return 0;
+/**
+ * Get the default jury quorum from env (0 = wait for all jurors)
+ */
+export function getDefaultQuorum(): number {
+  const quorum = parseInt(process.env.JURY_QUORUM || '0', 10);
+  return Number.isNaN(quorum) ? 0 : Math.max(quorum, 0);
+}
 
-  return dotProduct / (magnitude1 * magnitude2);
+/**
+ * Get the default straggler policy from env
+ */
+export function getDefaultStragglerPolicy(): StragglerPolicy {
+  return process.env.QUORUM_STRAGGLER_POLICY === 'background' ? 'background' : 'abort';
 }
 
 /**
  * Calculate pairwise similarities between all responses
  */
-function calculatePairwiseSimilarities(responses: ModelResponse[]): number[][] {
-  const n = responses.length;
-  const similarities: number[][] = Array(n)
-    .fill(null)
-    .map(() => Array(n).fill(0));
-
-  for (let i = 0; i < n; i++) {
-    for (let j = i; j < n; j++) {
-      if (i === j) {
-        similarities[i][j] = 1;
-      } else {
-        const similarity = calculateSimilarity(
-          responses[i].answer,
-          responses[j].answer
-        );
-        similarities[i][j] = similarity;
-        similarities[j][i] = similarity;
-      }
-    }
-  }
-
-  return similarities;
+async function calculatePairwiseSimilarities(
+  responses: ModelResponse[],
+  strategyName?: string,
+  options: SimilarityOptions = {}
+): Promise<{ similarities: number[][]; backend: string }> {
+  const { similarities, strategy } = await calculateSimilarityMatrix(
+    responses.map(r => r.answer),
+    strategyName,
+    options
+  );
+  return { similarities, backend: strategy };
 }
 
 /**
  * Find the dissenting response (lowest average similarity)
+ * Prefers responses outside the majority faction when there are any
  */
 function findDissenter(
   responses: ModelResponse[],
-  similarities: number[][]
+  similarities: number[][],
+  majorityMembers: string[] = []
 ): ModelResponse | null {
   if (responses.length < 2) return null;
 
   let minAvgSimilarity = Infinity;
   let dissenterIndex = -1;
+  const hasOutsiders = responses.some(r => !majorityMembers.includes(r.model));
 
   for (let i = 0; i < responses.length; i++) {
+    if (hasOutsiders && majorityMembers.includes(responses[i].model)) continue;
+
     // Calculate average similarity to other responses
     let sum = 0;
     let count = 0;
@@ -297,7 +774,10 @@ function getMajorityAnswer(
 /**
  * Calculate consensus from model responses
  */
-export function calculateConsensus(responses: ModelResponse[]): ConsensusResult {
+export async function calculateConsensus(
+  responses: ModelResponse[],
+  options: { similarityStrategy?: string } & SimilarityOptions = {}
+): Promise<ConsensusResult> {
   // Filter successful responses
   const successfulResponses = responses.filter(r => r.success && r.answer);
 
@@ -317,11 +797,18 @@ export function calculateConsensus(responses: ModelResponse[]): ConsensusResult
       agreementScore: 0,
       responses,
       consensusAnswer: successfulResponses[0].answer,
+      medoidAnswer: successfulResponses[0].answer,
+      // A lone answer is its own faction at any threshold
+      factions: clusterFactions(successfulResponses, [[1]], 1),
     };
   }
 
   // Calculate pairwise similarities
-  const similarities = calculatePairwiseSimilarities(successfulResponses);
+  const { similarities, backend } = await calculatePairwiseSimilarities(
+    successfulResponses,
+    options.similarityStrategy,
+    { ledger: options.ledger, signal: options.signal, embeddings: options.embeddings }
+  );
 
   // Calculate average agreement score
   let totalSimilarity = 0;
@@ -336,24 +823,25 @@ export function calculateConsensus(responses: ModelResponse[]): ConsensusResult
 
   const agreementScore = pairCount > 0 ? totalSimilarity / pairCount : 0;
 
-  // Determine verdict and confidence
-  let verdict: VerdictType;
-  let confidence: ConfidenceLevel;
-
-  if (agreementScore >= THRESHOLDS.UNANIMOUS) {
-    verdict = 'unanimous';
-    confidence = 'high';
-  } else if (agreementScore >= THRESHOLDS.SPLIT) {
-    verdict = 'split';
-    confidence = 'medium';
-  } else {
-    verdict = 'no_consensus';
-    confidence = 'low';
-  }
-
-  // Find consensus answer and dissent
-  const consensusAnswer = getMajorityAnswer(successfulResponses, similarities);
-  const dissent = verdict === 'split' ? findDissenter(successfulResponses, similarities) ?? undefined : undefined;
+  // Cluster answers into factions, at the thresholds of the strategy that scored them
+  const thresholds = getSimilarityThresholds(backend);
+  const factions = clusterFactions(successfulResponses, similarities, thresholds.split);
+  const largest = factions[0];
+
+  // Determine verdict and confidence from the vote tally
+  const { verdict, confidence } = determineVerdict(
+    factions,
+    successfulResponses.length,
+    agreementScore >= thresholds.unanimous
+  );
+
+  // Find consensus answer (largest faction's representative) and dissent
+  const consensusAnswer = largest.size >= 2
+    ? largest.representativeAnswer
+    : getMajorityAnswer(successfulResponses, similarities);
+  const dissent = verdict === 'split'
+    ? findDissenter(successfulResponses, similarities, largest.members) ?? undefined
+    : undefined;
 
   return {
     verdict,
@@ -361,7 +849,10 @@ export function calculateConsensus(responses: ModelResponse[]): ConsensusResult
     agreementScore: Math.round(agreementScore * 100) / 100,
     responses,
     consensusAnswer,
+    medoidAnswer: consensusAnswer,
     dissent,
+    factions,
+    similarityBackend: backend,
   };
 }
 
@@ -379,27 +870,140 @@ export class GuardrailError extends Error {
   }
 }
 
-/**
- * Execute a complete jury query with guardrails, reflection, and memory
- */
-export async function executeJuryQuery(params: {
+export interface JuryQueryParams {
   question: string;
   context?: string;
+  // Model IDs or aliases
   models?: string[];
+  // Named jury panel (replaces models)
+  panel?: string;
   sessionId?: string;
+  // API caller charged for the query (per-caller budget)
+  callerId?: string;
+  similarityStrategy?: string;
+  answerType?: AnswerType;
+  quorum?: number;
+  stragglerPolicy?: StragglerPolicy;
+  onLateResponse?: (response: ModelResponse) => void;
+  onEvent?: JuryEventHandler;
+  bypassCache?: boolean;
+  deliberationRounds?: number;
+  enableSynthesis?: boolean;
+  enableClaims?: boolean;
   enableReflection?: boolean;
   enableMemory?: boolean;
   enableGuardrails?: boolean;
-}): Promise<ConsensusResult> {
+  enableBudget?: boolean;
+  // Output moderation (needs guardrails) and what to do with flagged answers
+  enableModeration?: boolean;
+  moderationPolicy?: ModerationPolicy;
+  // Built-in tools jurors may call (defaults to JURY_TOOLS when ENABLE_JURY_TOOLS is set)
+  tools?: string[];
+  documents?: JurorDocument[];
+  // Scheduling priority of the juror calls
+  priority?: CallPriority;
+  // Cancels the query, e.g. when the client disconnects
+  signal?: AbortSignal;
+  // Time budget in ms - the running stage is cancelled and the partial result returned
+  deadlineMs?: number;
+}
+
+/**
+ * Execute a complete jury query with guardrails, reflection, and memory
+ *
+ * With a signal or deadline, router calls are cancelled when either fires;
+ * the stages that already finished are returned with `partial` set.
+ */
+export async function executeJuryQuery(params: JuryQueryParams): Promise<ConsensusResult> {
+  const cancellation = new QueryCancellation(params.signal, params.deadlineMs);
+  // Tokens and cost of every router call for this query
+  const ledger = new UsageLedger();
+  const billing: { spend?: QuerySpend } = {};
+  try {
+    return await runJuryQuery(params, cancellation, ledger, billing);
+  } finally {
+    cancellation.dispose();
+    // Charged even when the query failed or its verdict was withheld
+    billing.spend?.settle(ledger.summarize().totals.costUsd);
+  }
+}
+
+async function runJuryQuery(
+  params: JuryQueryParams,
+  cancellation: QueryCancellation,
+  ledger: UsageLedger,
+  billing: { spend?: QuerySpend }
+): Promise<ConsensusResult> {
   const {
     question,
     context,
-    models,
     sessionId,
+    callerId,
+    similarityStrategy,
+    answerType,
+    quorum = getDefaultQuorum(),
+    stragglerPolicy = getDefaultStragglerPolicy(),
+    onLateResponse: callerOnLateResponse,
+    onEvent: callerOnEvent,
+    bypassCache,
+    deliberationRounds = getDefaultDeliberationRounds(),
+    enableSynthesis = isSynthesisEnabled(),
+    enableClaims = isClaimConsensusEnabled(),
     enableReflection = isReflectionEnabled(),
     enableMemory = isMemoryEnabled(),
     enableGuardrails = isGuardrailsEnabled(),
+    enableBudget = isBudgetEnabled(),
+    enableModeration = isOutputModerationEnabled(),
+    moderationPolicy = getModerationPolicy(),
+    tools = isJuryToolsEnabled() ? getDefaultJuryTools() : undefined,
+    documents,
+    priority,
   } = params;
+  let models = params.models;
+  if (params.panel) {
+    const panel = getPanel(params.panel);
+    if (!panel) {
+      throw new Error(`Unknown jury panel "${params.panel}"`);
+    }
+    models = panel.models;
+  }
+  models = models && resolveModelAliases(models);
+
+  const moderation: ModerationOutcome | undefined = enableGuardrails && enableModeration
+    ? { policy: moderationPolicy, model: getModerationModel(), checks: [], flagged: [], redacted: [] }
+    : undefined;
+  const withholding = moderation !== undefined && moderationPolicy !== 'annotate';
+
+  // Answers must not reach the caller before moderation has seen them
+  const onEvent = withholding ? withoutAnswerText(callerOnEvent) : callerOnEvent;
+  // Stragglers that finish after the query settled are charged on their own
+  const chargeLate = () => billing.spend?.chargeLate(ledger.summarize().totals.costUsd);
+  const onLateResponse = (response: ModelResponse) => {
+    chargeLate();
+    if (!moderation || !callerOnLateResponse) {
+      callerOnLateResponse?.(response);
+      return;
+    }
+
+    // Checked like the other answers; flagged ones are only withheld under redact and block
+    moderateJurorAnswers(question, [response], moderationPolicy)
+      .then(({ responses: [checked], checks, usages }) => {
+        for (const usage of usages) {
+          ledger.record('moderation', moderation.model, usage);
+        }
+        chargeLate();
+
+        const flagged = checks.filter(check => !check.allowed).map(check => check.target);
+        moderation.checks.push(...checks);
+        moderation.flagged.push(...flagged);
+        if (moderationPolicy === 'redact') {
+          moderation.redacted.push(...flagged);
+        }
+
+        if (!withholding || !checked.moderationFlag) callerOnLateResponse(checked);
+      })
+      .catch(error => console.warn('[Consensus] Late answer moderation failed:', error));
+  };
 
   // Step 1: Input validation (guardrails)
   if (enableGuardrails) {
@@ -413,14 +1017,38 @@ export async function executeJuryQuery(params: {
     }
   }
 
+  // Step 1b: Check spending budgets (may downgrade the jury)
+  let budget: BudgetDecision | undefined;
+  if (enableBudget) {
+    budget = await enforceBudget({
+      models: models ?? DEFAULT_JURY_MODELS,
+      question,
+      context,
+      deliberationRounds: answerType ? 0 : deliberationRounds,
+      similarityStrategy,
+      quorum: answerType ? 0 : quorum,
+      tools: (tools?.length ?? 0) > 0,
+      maxToolRounds: getMaxToolRounds(),
+      synthesis: enableSynthesis && !answerType,
+      claims: enableClaims && !answerType,
+      reflection: enableReflection && !answerType,
+      moderation: moderation !== undefined,
+      callerId,
+      sessionId,
+    });
+    models = budget.models;
+  }
+  billing.spend = budget?.spend ?? new QuerySpend(callerId, sessionId);
+
   // Step 2: Get conversation context from memory
   let enrichedContext = context || '';
+  let conversationContext = '';
   let memoryContextUsed = false;
   let memoryManager = null;
 
   if (enableMemory && sessionId) {
     memoryManager = getMemoryManager(sessionId);
-    const conversationContext = memoryManager.getConversationContext();
+    conversationContext = memoryManager.getConversationContext();
     if (conversationContext) {
       enrichedContext = enrichedContext
         ? `${conversationContext}\n\n${enrichedContext}`
@@ -429,33 +1057,199 @@ export async function executeJuryQuery(params: {
     }
   }
 
-  // Step 3: Query all models
-  const responses = await queryAllModels(question, models, enrichedContext || undefined);
+  // Answers embedded by the quorum checks are not embedded again for the verdict
+  const embeddings = new Map<string, number[]>();
+
+  // Step 3: Query all models (memory kept separate so it can be dropped to fit small windows)
+  let responses = await queryAllModels(question, models, context || undefined, {
+    memory: conversationContext || undefined,
+    answerType,
+    quorum,
+    stragglerPolicy,
+    onLateResponse,
+    similarityStrategy,
+    onEvent,
+    ledger,
+    bypassCache,
+    tools,
+    documents,
+    priority,
+    signal: cancellation.signal,
+    embeddings,
+  });
+  const stragglers = responses.filter(r => r.straggler).map(r => r.model);
+
+  // Step 3b: Deliberate - jurors see each other's answers and may revise
+  // (free-text answers only - structured votes are counted as given)
+  let deliberation: DeliberationResult | undefined;
+  if (
+    !cancellation.isInterrupted() &&
+    !answerType &&
+    deliberationRounds > 0 &&
+    responses.filter(r => r.success).length >= 2
+  ) {
+    cancellation.enter('deliberation');
+    try {
+      deliberation = await deliberate({
+        question,
+        context: enrichedContext || undefined,
+        initialResponses: responses,
+        rounds: deliberationRounds,
+        similarityStrategy,
+        signal: cancellation.signal,
+        ledger,
+      });
+      responses = deliberation.finalResponses;
+
+      for (const juror of deliberation.jurors) {
+        for (const round of juror.rounds) {
+          ledger.record('deliberation', juror.model, round.usage);
+        }
+      }
+    } catch (error) {
+      console.error('[Consensus] Deliberation failed:', error);
+      // Continue with first-round answers
+    }
+  }
+
+  const blockOutput = (): never => {
+    const flagged = moderation!.checks.filter(check => !check.allowed);
+    throw new GuardrailError(
+      'Output blocked by guardrails',
+      flagged.map(check => `${check.target}: ${check.reason}`).join('; '),
+      'high'
+    );
+  };
 
-  // Step 4: Calculate consensus
-  let result = calculateConsensus(responses);
+  // Step 3c: Moderate the jurors' final answers (redacted answers never reach consensus)
+  if (moderation && cancellation.getInterruption()?.reason !== 'cancelled') {
+    cancellation.enter('moderation');
+    const checked = await moderateJurorAnswers(question, responses, moderationPolicy, cancellation.cancelSignal);
+    responses = checked.responses;
+    moderation.checks.push(...checked.checks);
+    for (const usage of checked.usages) {
+      ledger.record('moderation', moderation.model, usage);
+    }
+
+    const flagged = checked.checks.filter(check => !check.allowed).map(check => check.target);
+    moderation.flagged.push(...flagged);
+    if (flagged.length > 0 && moderationPolicy === 'block') {
+      blockOutput();
+    }
+    if (flagged.length > 0 && moderationPolicy === 'redact') {
+      moderation.redacted.push(...flagged);
+      // Earlier rounds would show the redacted answers too
+      if (deliberation) {
+        deliberation = {
+          ...deliberation,
+          jurors: deliberation.jurors.filter(juror => !flagged.includes(juror.model)),
+        };
+      }
+    }
+  }
+
+  // Step 4: Calculate consensus (vote counting for structured answers)
+  // Always runs - even a cut-short query reports a verdict on what it has
+  cancellation.enter('consensus');
+  let result = answerType
+    ? calculateStructuredConsensus(responses, answerType)
+    : await calculateConsensus(responses, { similarityStrategy, ledger, signal: cancellation.signal, embeddings });
+  result.deliberation = deliberation;
+
+  if (quorum > 0) {
+    result.quorum = {
+      required: quorum,
+      met: stragglers.length > 0 || (result.factions?.[0]?.size ?? 0) >= quorum,
+      stragglerPolicy,
+      stragglers,
+    };
+  }
 
   // Add metadata
   result.guardrailsApplied = enableGuardrails;
+  result.panel = params.panel;
   result.sessionId = sessionId;
   result.memoryContextUsed = memoryContextUsed;
 
-  // Step 5: Apply reflection pattern
+  // Step 4b: Synthesize one answer from the majority faction
+  const majorityFaction = result.factions?.[0];
+  if (
+    enableSynthesis &&
+    !cancellation.isInterrupted() &&
+    !answerType &&
+    result.verdict !== 'no_consensus' &&
+    majorityFaction &&
+    majorityFaction.size >= 2
+  ) {
+    cancellation.enter('synthesis');
+    try {
+      const synthesis = await synthesizeConsensus(
+        question,
+        result.responses.filter(r => r.success && majorityFaction.members.includes(r.model)),
+        cancellation.signal
+      );
+      result.synthesis = synthesis;
+      result.consensusAnswer = synthesis.answer;
+      ledger.record('synthesis', synthesis.model, synthesis.usage);
+    } catch (error) {
+      console.error('[Consensus] Synthesis failed:', error);
+      // Continue with the medoid answer
+    }
+  }
+
+  emitEvent(onEvent, {
+    type: 'consensus_computed',
+    verdict: result.verdict,
+    confidence: result.confidence,
+    agreementScore: result.agreementScore,
+    consensusAnswer: result.consensusAnswer,
+    voteTally: result.factions ? formatTally(result.factions) : undefined,
+  });
+
+  // Step 5: Break answers into claims and report per-claim agreement
+  if (enableClaims && !answerType && !cancellation.isInterrupted()) {
+    cancellation.enter('claims');
+    try {
+      const { claims, failedModels } = await calculateClaimConsensus(question, result.responses, {
+        similarityStrategy,
+        signal: cancellation.signal,
+        ledger,
+      });
+      // Claims extracted from only some answers would misreport agreement
+      if (!cancellation.isInterrupted()) {
+        result.claims = claims;
+        result.claimExtractionFailed = failedModels.length > 0 ? failedModels : undefined;
+      }
+    } catch (error) {
+      console.error('[Consensus] Claim consensus failed:', error);
+      // Continue without claim-level consensus
+    }
+  }
+
+  // Step 6: Apply reflection pattern
   if (
     enableReflection &&
+    !cancellation.isInterrupted() &&
+    !answerType &&
     shouldApplyReflection(result.verdict, result.consensusAnswer)
   ) {
+    cancellation.enter('reflection');
     try {
       const reflection = await reflectOnConsensus(
         question,
         result.consensusAnswer!,
-        result.responses
+        result.responses,
+        cancellation.signal
       );
 
-      result.qualityScore = reflection.qualityScore;
+      ledger.record('reflection', getReflectionModel(), reflection.usage);
+      // A cancelled reflection has no score - keep the answer as it is
+      if (!cancellation.isInterrupted()) {
+        result.qualityScore = reflection.qualityScore;
+      }
 
       // Use refined answer if quality is above threshold
-      if (reflection.qualityScore >= QUALITY_THRESHOLD) {
+      if (!cancellation.isInterrupted() && reflection.qualityScore >= QUALITY_THRESHOLD) {
         result.originalConsensusAnswer = result.consensusAnswer;
         result.consensusAnswer = reflection.refinedAnswer;
         result.reflectionApplied = true;
@@ -464,10 +1258,57 @@ export async function executeJuryQuery(params: {
       console.error('[Consensus] Reflection failed:', error);
       // Continue without reflection
     }
+
+    emitEvent(onEvent, {
+      type: 'reflection_completed',
+      applied: result.reflectionApplied ?? false,
+      qualityScore: result.qualityScore,
+      consensusAnswer: result.consensusAnswer,
+    });
   }
 
-  // Step 6: Store in memory
-  if (enableMemory && memoryManager && result.consensusAnswer) {
+  // Step 6b: Moderate the answers no juror wrote (synthesized and refined)
+  const generated = [
+    result.synthesis && { target: 'synthesis', text: result.synthesis.answer },
+    result.reflectionApplied && result.consensusAnswer && { target: 'reflection', text: result.consensusAnswer },
+  ].filter((answer): answer is { target: string; text: string } => Boolean(answer));
+
+  if (moderation && generated.length > 0 && cancellation.getInterruption()?.reason !== 'cancelled') {
+    cancellation.enter('moderation');
+    const checked = await moderateAnswers(question, generated, moderationPolicy, cancellation.cancelSignal);
+    for (const { check, usage } of checked) {
+      moderation.checks.push(check);
+      ledger.record('moderation', moderation.model, usage);
+    }
+
+    const flagged = checked.filter(({ check }) => !check.allowed).map(({ check }) => check.target);
+    moderation.flagged.push(...flagged);
+    if (flagged.length > 0 && moderationPolicy === 'block') {
+      blockOutput();
+    }
+    if (flagged.length > 0 && moderationPolicy === 'redact') {
+      // Fall back to the most central juror answer (already moderated)
+      moderation.redacted.push(...flagged);
+      result.consensusAnswer = result.medoidAnswer;
+      result.synthesis = undefined;
+      result.originalConsensusAnswer = undefined;
+      result.reflectionApplied = false;
+    }
+  }
+  result.moderation = moderation;
+
+  result.usage = ledger.summarize();
+  if (budget) {
+    result.budget = {
+      estimatedCostUsd: budget.estimatedCostUsd,
+      downgradedFrom: budget.downgradedFrom,
+    };
+  }
+
+  result.partial = cancellation.getInterruption();
+
+  // Step 7: Store in memory (not for callers that went away)
+  if (enableMemory && memoryManager && result.consensusAnswer && result.partial?.reason !== 'cancelled') {
     memoryManager.addToSession({
       question,
       consensusAnswer: result.consensusAnswer,
@@ -476,7 +1317,7 @@ export async function executeJuryQuery(params: {
     });
   }
 
-  // Step 7: Record overall query metrics
+  // Step 8: Record overall query metrics
   const metrics = getMetrics();
   if (metrics) {
     metrics.recordQuery({
@@ -0,0 +1,334 @@
+/**
+ * Deliberation Module
+ *
+ * Implements multi-round jury deliberation (debate mode). After the first
+ * round of independent answers, each juror is shown the anonymized answers
+ * of the other jurors and asked to keep or revise its position. Tracking
+ * who changes their mind, and whether agreement rises, separates real
+ * disagreement from noise.
+ */
+
+import { getModelRouter } from './model-router.js';
+import { ENHANCED_JURY_PROMPT } from './guardrails.js';
+import { calculateSimilarityMatrix, type SimilarityOptions } from './similarity.js';
+import type { ModelResponse } from './consensus.js';
+import { toCallUsage, CallUsage, UsageLedger } from './usage.js';
+import { fitDeliberationPrompt, isPromptFittingEnabled, PromptFit } from './prompt-fitting.js';
+
+export type JurorPosition = 'initial' | 'kept' | 'revised';
+
+export interface JurorRoundAnswer {
+  round: number;
+  answer: string;
+  position: JurorPosition;
+  latencyMs: number;
+  error?: string;
+  usage?: CallUsage;
+  /** How this round's prompt was fitted to the model's context window */
+  promptFit?: PromptFit;
+}
+
+export interface JurorDeliberation {
+  model: string;
+  rounds: JurorRoundAnswer[];
+  changedMind: boolean;
+}
+
+export interface DeliberationRound {
+  round: number;
+  agreementScore: number;
+  revisedModels: string[];
+}
+
+export interface DeliberationResult {
+  /** Round 0 is the initial independent answers */
+  rounds: DeliberationRound[];
+  jurors: JurorDeliberation[];
+  /** Models that revised their position at least once */
+  changedMinds: string[];
+  /** Positions stabilized and agreement did not drop */
+  converged: boolean;
+  /** Final answer per juror (input for consensus) */
+  finalResponses: ModelResponse[];
+}
+
+// Upper bound on rounds regardless of request
+export const MAX_DELIBERATION_ROUNDS = 5;
+
+// Other jurors' answers are truncated to keep prompts bounded
+const MAX_PEER_ANSWER_LENGTH = 1500;
+
+const MAX_REVISION_TOKENS = 2048;
+
+// Deliberation prompt template
+const DELIBERATION_PROMPT = `You are in round {round} of a jury deliberation.
+
+QUESTION:
+{question}
+
+YOUR PREVIOUS ANSWER:
+{ownAnswer}
+
+OTHER JURORS' ANSWERS (anonymized):
+{peerAnswers}
+
+Reconsider your answer in light of the other jurors' reasoning. Change your position only if their arguments or evidence convince you - do not simply conform to the majority.
+
+Start your response with exactly one line:
+POSITION: KEEP    (if your conclusion is unchanged)
+POSITION: REVISE  (if you changed your conclusion)
+
+Then give your complete final answer.`;
+
+/**
+ * Parse the position line and strip it from the answer
+ * (position is null when the reply has no marker)
+ */
+function parsePosition(content: string): { position: 'kept' | 'revised' | null; answer: string } {
+  const match = content.match(/^\s*POSITION:\s*(KEEP|REVISE)\b[^\n]*\n?/i);
+  if (!match) {
+    return { position: null, answer: content.trim() };
+  }
+
+  return {
+    position: match[1].toUpperCase() === 'KEEP' ? 'kept' : 'revised',
+    answer: content.slice(match[0].length).trim(),
+  };
+}
+
+/**
+ * Position of a reply without a marker: a revision only if the juror
+ * rewrote its answer (similarity to the previous answer below the threshold)
+ */
+async function inferPosition(
+  previousAnswer: string,
+  answer: string,
+  similarityStrategy?: string,
+  options: SimilarityOptions = {}
+): Promise<'kept' | 'revised'> {
+  const { similarities } = await calculateSimilarityMatrix(
+    [previousAnswer, answer],
+    similarityStrategy,
+    options
+  );
+  return similarities[0][1] >= getKeepThreshold() ? 'kept' : 'revised';
+}
+
+/**
+ * Average pairwise similarity between answers
+ */
+async function calculateAgreement(
+  answers: string[],
+  similarityStrategy?: string,
+  options: SimilarityOptions = {}
+): Promise<number> {
+  if (answers.length < 2) return 0;
+
+  const { similarities } = await calculateSimilarityMatrix(answers, similarityStrategy, options);
+
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < answers.length; i++) {
+    for (let j = i + 1; j < answers.length; j++) {
+      total += similarities[i][j];
+      pairs++;
+    }
+  }
+
+  return Math.round((total / pairs) * 100) / 100;
+}
+
+/**
+ * Run deliberation rounds on top of the initial jury answers
+ *
+ * Jurors whose first answer failed do not take part. A juror that fails
+ * in a later round keeps its previous answer. Deliberation stops early
+ * once a round passes with no revisions.
+ */
+export async function deliberate(params: {
+  question: string;
+  context?: string;
+  initialResponses: ModelResponse[];
+  rounds: number;
+  similarityStrategy?: string;
+  /** Stops the remaining revision calls (jurors keep their last answer) */
+  signal?: AbortSignal;
+  /** Records the agreement checks' similarity calls (juror calls are in `jurors`) */
+  ledger?: UsageLedger;
+  /** Fit each round's prompt to the model's context window (defaults to ENABLE_PROMPT_FITTING) */
+  fitPrompts?: boolean;
+}): Promise<DeliberationResult> {
+  const { question, context, initialResponses, similarityStrategy, signal, ledger } = params;
+  const fitPrompts = params.fitPrompts ?? isPromptFittingEnabled();
+  const similarityOptions: SimilarityOptions = { ledger, signal };
+  const rounds = Math.min(Math.max(params.rounds, 0), MAX_DELIBERATION_ROUNDS);
+
+  const router = getModelRouter();
+  if (!router) {
+    throw new Error('Model Router not initialized');
+  }
+
+  const participants = initialResponses.filter(r => r.success && r.answer);
+  const jurors: JurorDeliberation[] = participants.map(r => ({
+    model: r.model,
+    rounds: [{ round: 0, answer: r.answer, position: 'initial', latencyMs: r.latencyMs, promptFit: r.promptFit }],
+    changedMind: false,
+  }));
+
+  const history: DeliberationRound[] = [{
+    round: 0,
+    agreementScore: await calculateAgreement(participants.map(r => r.answer), similarityStrategy, similarityOptions),
+    revisedModels: [],
+  }];
+
+  for (let round = 1; round <= rounds && jurors.length >= 2 && !signal?.aborted; round++) {
+    const previousAnswers = jurors.map(j => j.rounds[j.rounds.length - 1].answer);
+
+    const roundAnswers = await Promise.all(
+      jurors.map(async (juror, index): Promise<JurorRoundAnswer> => {
+        const startTime = Date.now();
+        let promptFit: PromptFit | undefined;
+
+        try {
+          // The juror's own answer is filled in before fitting - only peers and context are trimmed
+          const instructions = DELIBERATION_PROMPT
+            .replace('{round}', String(round))
+            .replace('{ownAnswer}', previousAnswers[index]);
+          const peers = previousAnswers
+            .filter((_, i) => i !== index)
+            .map(answer => answer.slice(0, MAX_PEER_ANSWER_LENGTH));
+
+          const prompt = fitPrompts
+            ? await fitDeliberationPrompt({
+                model: juror.model,
+                systemPrompt: ENHANCED_JURY_PROMPT,
+                instructions,
+                question,
+                context,
+                peerAnswers: peers,
+                maxOutputTokens: MAX_REVISION_TOKENS,
+              })
+            : { context, peerAnswers: peers, maxOutputTokens: MAX_REVISION_TOKENS };
+          promptFit = prompt.fit;
+
+          // Label peers by letter so jurors cannot defer to a model's reputation
+          const peerAnswers = prompt.peerAnswers
+            .map((answer, i) => `Juror ${String.fromCharCode(65 + i)}: ${answer}`)
+            .join('\n\n');
+          const questionWithContext = prompt.context
+            ? `Context: ${prompt.context}\n\nQuestion: ${question}`
+            : question;
+
+          const response = await router.chat({
+            model: juror.model,
+            messages: [
+              { role: 'system', content: ENHANCED_JURY_PROMPT },
+              {
+                role: 'user',
+                content: instructions
+                  .replace('{question}', questionWithContext)
+                  .replace('{peerAnswers}', peerAnswers),
+              },
+            ],
+            temperature: 0.3,
+            max_tokens: prompt.maxOutputTokens,
+          }, { signal });
+
+          const latencyMs = Date.now() - startTime;
+          const content = response.choices[0]?.message?.content || '';
+          const { position, answer } = parsePosition(content);
+
+          return {
+            round,
+            // An empty revision keeps the previous answer
+            answer: answer || previousAnswers[index],
+            position: !answer
+              ? 'kept'
+              : position ?? await inferPosition(previousAnswers[index], answer, similarityStrategy, similarityOptions),
+            latencyMs,
+            usage: toCallUsage(response),
+            promptFit,
+          };
+        } catch (error) {
+          console.warn(
+            `[Deliberation] ${juror.model} failed in round ${round}:`,
+            error instanceof Error ? error.message : error
+          );
+          return {
+            round,
+            answer: previousAnswers[index],
+            position: 'kept',
+            latencyMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            promptFit,
+          };
+        }
+      })
+    );
+
+    const revisedModels: string[] = [];
+    roundAnswers.forEach((answer, index) => {
+      jurors[index].rounds.push(answer);
+      if (answer.position === 'revised') {
+        jurors[index].changedMind = true;
+        revisedModels.push(jurors[index].model);
+      }
+    });
+
+    history.push({
+      round,
+      agreementScore: await calculateAgreement(roundAnswers.map(a => a.answer), similarityStrategy, similarityOptions),
+      revisedModels,
+    });
+
+    console.log(
+      `[Deliberation] Round ${round}: ${revisedModels.length} revised, ` +
+      `agreement ${history[history.length - 1].agreementScore}`
+    );
+
+    // Positions are stable - further rounds would not change anything
+    if (revisedModels.length === 0) break;
+  }
+
+  const lastRound = history[history.length - 1];
+  const converged =
+    lastRound.revisedModels.length === 0 &&
+    lastRound.agreementScore >= history[0].agreementScore;
+
+  // Final answers replace the initial ones; failed jurors are passed through
+  const finalResponses = initialResponses.map((response): ModelResponse => {
+    const juror = jurors.find(j => j.model === response.model);
+    if (!juror) return response;
+
+    return {
+      ...response,
+      answer: juror.rounds[juror.rounds.length - 1].answer,
+      latencyMs: juror.rounds.reduce((sum, r) => sum + r.latencyMs, 0),
+    };
+  });
+
+  return {
+    rounds: history,
+    jurors,
+    changedMinds: jurors.filter(j => j.changedMind).map(j => j.model),
+    converged,
+    finalResponses,
+  };
+}
+
+/**
+ * Similarity to the previous answer at which a reply without a position
+ * marker counts as kept
+ */
+function getKeepThreshold(): number {
+  return parseFloat(process.env.DELIBERATION_KEEP_THRESHOLD || '0.9');
+}
+
+/**
+ * Get the default number of deliberation rounds from env
+ * 0 disables deliberation (the default)
+ */
+export function getDefaultDeliberationRounds(): number {
+  const rounds = parseInt(process.env.DELIBERATION_ROUNDS || '0', 10);
+  return Number.isNaN(rounds) ? 0 : Math.min(Math.max(rounds, 0), MAX_DELIBERATION_ROUNDS);
+}
@@ -0,0 +1,126 @@
+/**
+ * Embedding Similarity Module
+ *
+ * Scores agreement between model answers using embedding vectors
+ * requested through the Model Router. Embeddings capture meaning rather
+ * than shared vocabulary, so two answers that reach the same conclusion
+ * in different words still score as similar.
+ *
+ * Registered as the 'embedding' strategy in the similarity registry,
+ * where TF-IDF remains the offline fallback.
+ */
+
+import { getModelRouter } from './model-router.js';
+import { toCallUsage } from './usage.js';
+import type { SimilarityOptions } from './similarity.js';
+
+// Default embedding model (override with EMBEDDING_MODEL env var)
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Embedding inputs are truncated to keep requests within model limits
+const MAX_EMBEDDING_INPUT_LENGTH = 8000;
+
+/**
+ * Cosine similarity between two vectors, clamped to [0, 1]
+ */
+export function cosineSimilarity(vector1: number[], vector2: number[]): number {
+  if (vector1.length === 0 || vector1.length !== vector2.length) return 0;
+
+  let dotProduct = 0;
+  let magnitude1 = 0;
+  let magnitude2 = 0;
+
+  for (let i = 0; i < vector1.length; i++) {
+    dotProduct += vector1[i] * vector2[i];
+    magnitude1 += vector1[i] * vector1[i];
+    magnitude2 += vector2[i] * vector2[i];
+  }
+
+  if (magnitude1 === 0 || magnitude2 === 0) return 0;
+
+  const similarity = dotProduct / (Math.sqrt(magnitude1) * Math.sqrt(magnitude2));
+
+  // Opposing vectors count as no agreement, not negative agreement
+  return Math.max(0, Math.min(1, similarity));
+}
+
+/**
+ * Embed texts in one router call, skipping texts already in options.embeddings
+ *
+ * Throws if the router is unavailable or returns an unexpected payload.
+ */
+async function embedTexts(texts: string[], options: SimilarityOptions): Promise<number[][]> {
+  const cache = options.embeddings ?? new Map<string, number[]>();
+  const missing = [...new Set(texts.filter(text => !cache.has(text)))];
+
+  if (missing.length > 0) {
+    const router = getModelRouter();
+    if (!router) {
+      throw new Error('Model Router not initialized');
+    }
+
+    const model = getEmbeddingModel();
+    const response = await router.embeddings({
+      model,
+      input: missing.map(text => text.slice(0, MAX_EMBEDDING_INPUT_LENGTH)),
+    }, { signal: options.signal });
+    options.ledger?.record('similarity', model, toCallUsage(response));
+
+    const vectors = response.data.map(d => d.embedding);
+    if (vectors.length !== missing.length) {
+      throw new Error(`Expected ${missing.length} embeddings, received ${vectors.length}`);
+    }
+    missing.forEach((text, i) => cache.set(text, vectors[i]));
+  }
+
+  return texts.map(text => cache.get(text)!);
+}
+
+/**
+ * Calculate a pairwise similarity matrix for texts using embeddings
+ *
+ * Throws if the router is unavailable or returns an unexpected payload,
+ * so callers can fall back to an offline similarity measure.
+ */
+export async function calculateEmbeddingSimilarities(
+  texts: string[],
+  options: SimilarityOptions = {}
+): Promise<number[][]> {
+  const vectors = await embedTexts(texts, options);
+
+  const n = texts.length;
+  const similarities: number[][] = Array(n)
+    .fill(null)
+    .map(() => Array(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    similarities[i][i] = 1;
+    for (let j = i + 1; j < n; j++) {
+      const similarity = cosineSimilarity(vectors[i], vectors[j]);
+      similarities[i][j] = similarity;
+      similarities[j][i] = similarity;
+    }
+  }
+
+  return similarities;
+}
+
+/**
+ * Similarity of one text to each of the others using embeddings
+ * (only texts not yet in options.embeddings are sent to the router)
+ */
+export async function calculateEmbeddingRow(
+  text: string,
+  others: string[],
+  options: SimilarityOptions = {}
+): Promise<number[]> {
+  const [vector, ...otherVectors] = await embedTexts([text, ...others], options);
+  return otherVectors.map(other => cosineSimilarity(vector, other));
+}
+
+/**
+ * Get the embedding model from env or use default
+ */
+export function getEmbeddingModel(): string {
+  return process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
@@ -0,0 +1,160 @@
+/**
+ * Faction Clustering
+ *
+ * Groups juror answers into factions using the pairwise similarity
+ * matrix (average-linkage agglomerative clustering). With 5-10 models
+ * a jury rarely splits into "N-1 vs 1"; factions capture real vote
+ * tallies such as 3-1-1 or 2-2-1.
+ */
+
+import type { ModelResponse, VerdictType, ConfidenceLevel } from './consensus.js';
+
+export interface Faction {
+  /** Models in this faction */
+  members: string[];
+  size: number;
+  /** Most central member (highest average similarity to the others) */
+  representativeModel: string;
+  representativeAnswer: string;
+  /** Average pairwise similarity within the faction (1 for a single model) */
+  cohesion: number;
+}
+
+/**
+ * Average similarity between two clusters of response indices
+ */
+function averageLinkage(
+  clusterA: number[],
+  clusterB: number[],
+  similarities: number[][]
+): number {
+  let sum = 0;
+  for (const i of clusterA) {
+    for (const j of clusterB) {
+      sum += similarities[i][j];
+    }
+  }
+  return sum / (clusterA.length * clusterB.length);
+}
+
+/**
+ * Find the medoid of a cluster (member with highest average similarity to the rest)
+ */
+export function findMedoid(indices: number[], similarities: number[][]): number {
+  if (indices.length <= 2) return indices[0];
+
+  let bestIndex = indices[0];
+  let bestAvg = -Infinity;
+
+  for (const i of indices) {
+    let sum = 0;
+    for (const j of indices) {
+      if (i !== j) sum += similarities[i][j];
+    }
+    const avg = sum / (indices.length - 1);
+    if (avg > bestAvg) {
+      bestAvg = avg;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+}
+
+/**
+ * Cluster responses into factions
+ *
+ * Repeatedly merges the two closest clusters while their average
+ * similarity is at least `threshold`. Factions are returned largest
+ * first (ties broken by cohesion).
+ */
+export function clusterFactions(
+  responses: ModelResponse[],
+  similarities: number[][],
+  threshold: number
+): Faction[] {
+  let clusters: number[][] = responses.map((_, i) => [i]);
+
+  while (clusters.length > 1) {
+    let bestScore = -Infinity;
+    let bestPair: [number, number] = [-1, -1];
+
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const score = averageLinkage(clusters[a], clusters[b], similarities);
+        if (score > bestScore) {
+          bestScore = score;
+          bestPair = [a, b];
+        }
+      }
+    }
+
+    if (bestScore < threshold) break;
+
+    const [a, b] = bestPair;
+    const merged = [...clusters[a], ...clusters[b]];
+    clusters = clusters.filter((_, i) => i !== a && i !== b);
+    clusters.push(merged);
+  }
+
+  return clusters
+    .map((indices): Faction => {
+      const sorted = [...indices].sort((a, b) => a - b);
+      const representative = findMedoid(sorted, similarities);
+
+      let cohesion = 1;
+      if (sorted.length > 1) {
+        let sum = 0;
+        let count = 0;
+        for (let x = 0; x < sorted.length; x++) {
+          for (let y = x + 1; y < sorted.length; y++) {
+            sum += similarities[sorted[x]][sorted[y]];
+            count++;
+          }
+        }
+        cohesion = sum / count;
+      }
+
+      return {
+        members: sorted.map(i => responses[i].model),
+        size: sorted.length,
+        representativeModel: responses[representative].model,
+        representativeAnswer: responses[representative].answer,
+        cohesion: Math.round(cohesion * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.size - a.size || b.cohesion - a.cohesion);
+}
+
+/**
+ * Determine verdict and confidence from a faction tally
+ *
+ * `unanimous` is decided by the caller (e.g. one faction with a high
+ * agreement score, or identical structured votes).
+ */
+export function determineVerdict(
+  factions: Pick<Faction, 'size'>[],
+  modelCount: number,
+  unanimous: boolean
+): { verdict: VerdictType; confidence: ConfidenceLevel } {
+  const largestSize = factions[0]?.size ?? 0;
+  const runnerUpSize = factions[1]?.size ?? 0;
+
+  if (unanimous && largestSize === modelCount) {
+    return { verdict: 'unanimous', confidence: 'high' };
+  }
+  if (largestSize > modelCount / 2) {
+    return { verdict: 'split', confidence: 'medium' };
+  }
+  if (largestSize >= 2 && largestSize > runnerUpSize) {
+    return { verdict: 'plurality', confidence: 'low' };
+  }
+  return { verdict: 'no_consensus', confidence: 'low' };
+}
+
+/**
+ * Format faction sizes as a vote tally (e.g. "3-1-1")
+ */
+export function formatTally(factions: Pick<Faction, 'size'>[]): string {
+  return factions.map(f => f.size).join('-');
+}
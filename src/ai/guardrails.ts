@@ -8,12 +8,17 @@
  */
 
 import { getModelRouter } from './model-router.js';
+import { toCallUsage, CallUsage } from './usage.js';
 
 export interface GuardrailResult {
   allowed: boolean;
   reason?: string;
   sanitizedInput?: string;
   riskLevel: 'low' | 'medium' | 'high';
+  // Tokens and cost of the moderation call (output validation)
+  usage?: CallUsage;
+  // False when output moderation could not run (callers decide whether to fail open)
+  checked?: boolean;
 }
 
 // Layer 1: Input Validation Patterns
@@ -104,20 +109,26 @@ export function validateInput(question: string): GuardrailResult {
 
 /**
  * Validate output content for safety
- * Uses a lightweight model for content moderation
+ * Uses a lightweight model for content moderation (MODERATION_MODEL)
  */
 export async function validateOutput(
   question: string,
-  answer: string
+  answer: string,
+  signal?: AbortSignal
 ): Promise<GuardrailResult> {
   const router = getModelRouter();
 
-  // If no router or answer is empty, fail open with warning
-  if (!router || !answer) {
+  // Nothing to moderate
+  if (!answer) {
+    return { allowed: true, riskLevel: 'low' };
+  }
+
+  if (!router) {
     return {
       allowed: true,
       riskLevel: 'medium',
       reason: 'Unable to perform content moderation',
+      checked: false,
     };
   }
 
@@ -136,13 +147,17 @@ Check for:
 Respond with ONLY valid JSON (no markdown, no explanation):
 {"safe": true/false, "concerns": ["concern1", "concern2"] or []}`;
 
+  // Kept outside the try so a failed parse still reports what the call cost
+  let usage: CallUsage | undefined;
+
   try {
     const result = await router.chat({
-      model: 'gemini-1.5-flash', // Fast, cheap for moderation
+      model: getModerationModel(),
       messages: [{ role: 'user', content: moderationPrompt }],
       temperature: 0,
       max_tokens: 200,
-    });
+    }, { signal });
+    usage = toCallUsage(result);
 
     const content = result.choices[0]?.message?.content || '{"safe": true, "concerns": []}';
 
@@ -160,14 +175,17 @@ Respond with ONLY valid JSON (no markdown, no explanation):
       allowed: moderation.safe !== false,
       reason: moderation.concerns?.length > 0 ? moderation.concerns.join(', ') : undefined,
       riskLevel: moderation.safe === false ? 'high' : 'low',
+      usage,
     };
   } catch (error) {
-    // Fail open with warning (could be made stricter in high-security contexts)
+    // Reported as unchecked - the moderation policy decides whether it passes
     console.warn('[Guardrails] Output validation failed:', error);
     return {
       allowed: true,
       riskLevel: 'medium',
       reason: 'Content moderation check failed',
+      usage,
+      checked: false,
     };
   }
 }
@@ -203,6 +221,13 @@ export const ENHANCED_JURY_PROMPT = `You are participating in an AI Jury deliber
 
 Remember: Your response will be compared with other AI models to reach a consensus verdict. Accuracy and clarity are paramount.`;
 
+/**
+ * Model used for output moderation (fast and cheap by default)
+ */
+export function getModerationModel(): string {
+  return process.env.MODERATION_MODEL || 'gemini-1.5-flash';
+}
+
 /**
  * Check if guardrails are enabled via environment variable
  */
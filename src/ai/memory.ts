@@ -213,12 +213,19 @@ export function isMemoryEnabled(): boolean {
   return process.env.ENABLE_MEMORY !== 'false';
 }
 
+/**
+ * Seconds a session lives without a query (SESSION_TTL_SECONDS)
+ */
+export function getSessionTtlSeconds(): number {
+  return parseInt(process.env.SESSION_TTL_SECONDS || '3600', 10);
+}
+
 /**
  * Clean up expired sessions (call periodically)
  * Sessions older than SESSION_TTL_SECONDS are removed
  */
 export function cleanupExpiredSessions(): number {
-  const ttlSeconds = parseInt(process.env.SESSION_TTL_SECONDS || '3600', 10);
+  const ttlSeconds = getSessionTtlSeconds();
   const now = new Date();
   let cleanedCount = 0;
 
@@ -0,0 +1,75 @@
+/**
+ * Model Catalog
+ *
+ * Capabilities, context windows, output limits and prices of known
+ * models. The bundled catalog (src/config/models.json) can be replaced
+ * with MODEL_CATALOG_PATH, e.g. for local models or negotiated prices.
+ * Values reported by the router or provider take precedence; the catalog
+ * fills in what they leave out.
+ */
+
+import { readFileSync } from 'fs';
+import bundledCatalog from '../config/models.json';
+import type { ModelInfo } from './model-router.js';
+
+/**
+ * Catalog entry (same shape as ModelInfo, every field but id optional)
+ */
+export type CatalogModel = Partial<ModelInfo> & { id: string };
+
+let catalogInstance: Map<string, CatalogModel> | null = null;
+
+/**
+ * Load the catalog (MODEL_CATALOG_PATH or the bundled file), once
+ */
+function getCatalog(): Map<string, CatalogModel> {
+  if (catalogInstance) return catalogInstance;
+
+  let entries = bundledCatalog as CatalogModel[];
+  const catalogPath = process.env.MODEL_CATALOG_PATH;
+  if (catalogPath) {
+    try {
+      entries = JSON.parse(readFileSync(catalogPath, 'utf-8')) as CatalogModel[];
+      console.log(`[ModelCatalog] Loaded ${entries.length} models from ${catalogPath}`);
+    } catch (error) {
+      console.warn(
+        `[ModelCatalog] Could not load ${catalogPath}, using bundled catalog:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  catalogInstance = new Map(entries.map(entry => [entry.id, entry]));
+  return catalogInstance;
+}
+
+/**
+ * Get the catalog entry for a model
+ */
+export function getCatalogModel(id: string): CatalogModel | undefined {
+  return getCatalog().get(id);
+}
+
+/**
+ * Complete a reported model with catalog values
+ *
+ * Reported values win; a context window neither source knows stays null
+ * and prices neither source knows stay 0.
+ */
+export function withCatalogDefaults(reported: CatalogModel): ModelInfo {
+  const catalog = getCatalogModel(reported.id);
+  const pricing = {
+    input_per_1k: reported.pricing?.input_per_1k || catalog?.pricing?.input_per_1k || 0,
+    output_per_1k: reported.pricing?.output_per_1k || catalog?.pricing?.output_per_1k || 0,
+  };
+
+  return {
+    id: reported.id,
+    name: reported.name ?? catalog?.name ?? reported.id,
+    provider: reported.provider ?? catalog?.provider ?? 'unknown',
+    capabilities: reported.capabilities ?? catalog?.capabilities ?? ['chat'],
+    context_length: reported.context_length ?? catalog?.context_length ?? null,
+    max_output_tokens: reported.max_output_tokens ?? catalog?.max_output_tokens,
+    pricing,
+  };
+}
@@ -28,38 +28,105 @@
  * - MODEL_ROUTER_TOKEN: JWT token for authentication (issued by Station)
  *   Example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *
+ * - MODEL_ROUTER_TOKEN_FILE: Mounted file with the token (alternative to
+ *   MODEL_ROUTER_TOKEN, re-read when the token is rotated)
+ *
  * TOKEN LIFECYCLE:
  * 1. Station generates JWT token when agent is created
  * 2. Token contains agent ID, name, and expiration
  * 3. Token can be revoked/regenerated from Station admin UI
  * 4. If revoked, agent receives 401 and should alert operators
+ * 5. The client warns ahead of `exp`, picks up rotated tokens (mounted
+ *    MODEL_ROUTER_TOKEN_FILE or the Station) and, if a 401 persists, marks
+ *    the agent degraded (see ./router-token.ts)
  *
  * REPLICATION GUIDE:
  * To implement Model Router auth in your own agent:
  * 1. Copy this file to your agent's source
  * 2. Set MODEL_ROUTER_URL and MODEL_ROUTER_TOKEN env vars
  * 3. Call initializeModelRouter() at startup
- * 4. Use getModelRouter().chat() for LLM requests
+ * 4. Use getModelRouter().chat() for LLM requests (chatStream() to stream tokens)
+ *
+ * SELF-HOSTED DEPLOYMENTS:
+ * Without a Model Router, direct provider adapters (./providers/direct.ts)
+ * can be installed as the ChatProvider instead. getModelRouter() then
+ * returns that client, so the rest of the agent is unchanged.
  * ============================================================================
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { getCircuitBreaker, isCircuitBreakerEnabled, CircuitBreaker } from './circuit-breaker.js';
+import { getResponseCache } from './response-cache.js';
+import { getCassetteStore } from './cassette.js';
+import { acquireCallSlot, type CallPriority, type CallSlot } from './scheduler.js';
+import { getCatalogModel, withCatalogDefaults } from './model-catalog.js';
+import { initializeRouterToken, RouterTokenManager, RouterTokenConfig } from './router-token.js';
+import {
+  RetryPolicy,
+  RetryBudget,
+  RetryPolicyConfig,
+  ModelRetryPolicies,
+  DEFAULT_RETRY_POLICY,
+  parseRetryAfter,
+} from './retry-policy.js';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  /** Empty for assistant turns that only call tools */
   content: string;
+  /** Tools the assistant called in this turn */
+  tool_calls?: ToolCall[];
+  /** Call answered by this tool message */
+  tool_call_id?: string;
 }
 
+/**
+ * Function the model may call (OpenAI tools format)
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    /** JSON Schema of the arguments object */
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * Function call requested by the model
+ */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments (may be malformed - models produce it) */
+    arguments: string;
+  };
+}
+
+/**
+ * Whether and which tool the model must call
+ */
+export type ToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
 export interface ChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
 }
 
 export interface ChatCompletionChoice {
@@ -74,6 +141,11 @@ export interface UsageInfo {
   total_tokens: number;
 }
 
+/**
+ * Cache that answered a call: this agent's response cache or the router's
+ */
+export type CacheSource = 'local' | 'router';
+
 /**
  * PAP metadata returned by the Model Router
  * Contains billing and performance information
@@ -83,6 +155,10 @@ export interface PAPMetadata {
   latency_ms: number;
   provider: string;
   cached: boolean;
+  /** Set when cached */
+  cache_source?: CacheSource;
+  /** Time the call waited for a scheduler slot (included in latency_ms when measured locally) */
+  queue_ms?: number;
 }
 
 export interface ChatCompletionResponse {
@@ -93,18 +169,129 @@ export interface ChatCompletionResponse {
   pap_metadata: PAPMetadata;
 }
 
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingData {
+  index: number;
+  embedding: number[];
+}
+
+export interface EmbeddingResponse {
+  model: string;
+  data: EmbeddingData[];
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+  pap_metadata: PAPMetadata;
+}
+
+/**
+ * OpenAI-style streaming chunk (one `data:` line of the SSE stream)
+ */
+interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta?: { role?: string; content?: string | null; tool_calls?: ToolCallDelta[] };
+    finish_reason?: ChatCompletionChoice['finish_reason'];
+  }>;
+  usage?: UsageInfo | null;
+  error?: { message?: string; code?: number | string };
+}
+
+/**
+ * Fragment of a streamed tool call (arguments arrive in pieces)
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Entry of the router's /v1/models list (metadata fields are optional)
+ */
+interface RouterModel {
+  id: string;
+  owned_by: string;
+  name?: string;
+  capabilities?: string[];
+  context_length?: number;
+  context_window?: number;
+  max_output_tokens?: number;
+  pricing?: {
+    input_per_1k: number;
+    output_per_1k: number;
+  };
+}
+
+/**
+ * Events yielded by chatStream()
+ * - delta: newly generated text
+ * - done: the full answer with usage and cost (always the last event)
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | {
+      type: 'done';
+      id: string;
+      model: string;
+      content: string;
+      finish_reason: ChatCompletionChoice['finish_reason'];
+      tool_calls?: ToolCall[];
+      usage?: UsageInfo;
+      pap_metadata: PAPMetadata;
+    };
+
+/**
+ * Per-call options for Model Router requests
+ */
+export interface ChatOptions {
+  /** Abort the request (and any pending retries) when this signal fires */
+  signal?: AbortSignal;
+  /** Retry allowance shared with the other calls of the same query */
+  retryBudget?: RetryBudget;
+  /** Serve and store this call in the response cache (if enabled) */
+  cache?: boolean;
+  /** Scheduling priority when calls are queued (default: normal) */
+  priority?: CallPriority;
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
   provider: string;
   capabilities: string[];
-  context_length: number;
+  /** Context window in tokens (null when unknown) */
+  context_length: number | null;
+  /** Output token limit (when known) */
+  max_output_tokens?: number;
   pricing: {
     input_per_1k: number;
     output_per_1k: number;
   };
 }
 
+/**
+ * LLM backend used by the agent
+ *
+ * Implemented by the Model Router client and by the direct provider
+ * client for deployments without a router.
+ */
+export interface ChatProvider {
+  chat(request: ChatCompletionRequest, options?: ChatOptions): Promise<ChatCompletionResponse>;
+  chatStream(request: ChatCompletionRequest, options?: ChatOptions): AsyncGenerator<ChatStreamEvent>;
+  embeddings(request: EmbeddingRequest, options?: ChatOptions): Promise<EmbeddingResponse>;
+  listModels(): Promise<ModelInfo[]>;
+  isModelAvailable(modelId: string): Promise<boolean>;
+}
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -125,6 +312,19 @@ interface ModelRouterConfig {
   /** JWT token for authentication (from MODEL_ROUTER_TOKEN env var) */
   token: string;
 
+  /** Mounted token file, read when token is empty and on rotation (from MODEL_ROUTER_TOKEN_FILE) */
+  tokenFile?: string;
+
+  /** Station URL and agent key, used to request a rotated token */
+  stationUrl?: string;
+  apiKey?: string;
+
+  /** Warn this long before the token expires in seconds (default: 3600) */
+  tokenWarnBeforeSeconds?: number;
+
+  /** Token expiry / recovery check interval in seconds (default: 60) */
+  tokenCheckIntervalSeconds?: number;
+
   /** Request timeout in milliseconds (default: 60000) */
   timeout?: number;
 
@@ -133,37 +333,66 @@ interface ModelRouterConfig {
 
   /** Base delay between retries in ms (default: 1000) */
   retryDelay?: number;
+
+  /** Per-model retry policy overrides (from MODEL_RETRY_POLICIES env var) */
+  retryPolicies?: Record<string, Partial<RetryPolicyConfig>>;
 }
 
 // ============================================================================
 // MODEL ROUTER CLIENT
 // ============================================================================
 
-export class ModelRouterClient {
+export class ModelRouterClient implements ChatProvider {
   private baseUrl: string;
   private agentId: string;
-  private token: string;
+  private tokens: RouterTokenManager;
   private timeout: number;
-  private retries: number;
-  private retryDelay: number;
+  private retryPolicies: ModelRetryPolicies;
 
   constructor(config: ModelRouterConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.agentId = config.agentId;
-    this.token = config.token;
     this.timeout = config.timeout ?? 60000; // 60 seconds default
-    this.retries = config.retries ?? 2;
-    this.retryDelay = config.retryDelay ?? 1000;
+
+    this.retryPolicies = new ModelRetryPolicies(
+      {
+        ...DEFAULT_RETRY_POLICY,
+        maxRetries: config.retries ?? DEFAULT_RETRY_POLICY.maxRetries,
+        baseDelayMs: config.retryDelay ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      },
+      config.retryPolicies
+    );
 
     // Validate configuration
     if (!this.baseUrl) {
       throw new Error('MODEL_ROUTER_URL is required');
     }
-    if (!this.token) {
+    if (!config.token && !config.tokenFile) {
+      throw new Error('MODEL_ROUTER_TOKEN is required');
+    }
+
+    const tokenConfig: RouterTokenConfig = {
+      token: config.token,
+      tokenFile: config.tokenFile,
+      stationUrl: config.stationUrl,
+      agentId: config.agentId,
+      apiKey: config.apiKey,
+      warnBeforeSeconds: config.tokenWarnBeforeSeconds,
+      checkIntervalSeconds: config.tokenCheckIntervalSeconds,
+    };
+    this.tokens = initializeRouterToken(tokenConfig);
+    if (!this.tokens.getToken()) {
       throw new Error('MODEL_ROUTER_TOKEN is required');
     }
   }
 
+  /**
+   * Token lifecycle (expiry, rotation, degraded state)
+   */
+  getTokenManager(): RouterTokenManager {
+    return this.tokens;
+  }
+
   /**
    * Send a chat completion request through the Model Router
    *
@@ -181,62 +410,231 @@ export class ModelRouterClient {
    *   max_tokens: 1000,
    * });
    */
-  async chat(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  async chat(
+    request: ChatCompletionRequest,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletionResponse> {
     const requestId = uuidv4();
     const startTime = Date.now();
 
-    let lastError: Error | null = null;
+    // Serve identical requests from the response cache (opt-in per call)
+    const cached = await getCachedResponse(request, options, startTime);
+    if (cached) {
+      return cached;
+    }
 
-    for (let attempt = 0; attempt <= this.retries; attempt++) {
-      try {
-        const { data, headers } = await this.makeRequest(
-          '/v1/chat/completions',  // Model Router endpoint (not /api/v1/...)
-          {
-            ...request,
-            stream: false, // Non-streaming for now
-          },
-          requestId
-        );
-
-        // Extract PAP metadata from response headers
-        const papMetadata: PAPMetadata = {
-          cost_usd: parseFloat(headers.get('X-Request-Cost') || '0'),
-          latency_ms: parseInt(headers.get('X-Request-Latency-Ms') || '0') || (Date.now() - startTime),
-          provider: headers.get('X-Model-Provider') || 'unknown',
-          cached: headers.get('X-Cache-Status') === 'HIT',
-        };
-
-        return {
-          ...data,
-          pap_metadata: papMetadata,
-        };
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(
-          `[ModelRouter] Attempt ${attempt + 1}/${this.retries + 1} failed for ${request.model}:`,
-          error instanceof Error ? error.message : error
-        );
-
-        // Don't retry on authentication errors - token may be revoked
-        if (error instanceof AuthenticationError) {
-          console.error('[ModelRouter] Authentication failed - token may be revoked');
-          throw error;
-        }
+    const { value: result, queueMs } = await callWithRetries(
+      request.model,
+      this.retryPolicies.get(request.model),
+      options,
+      'ModelRouter',
+      () => this.makeRequest(
+        '/v1/chat/completions',  // Model Router endpoint (not /api/v1/...)
+        {
+          ...request,
+          stream: false, // Use chatStream() for token streaming
+        },
+        requestId,
+        'POST',
+        options.signal
+      )
+    );
+
+    const response = {
+      ...result.data,
+      pap_metadata: { ...this.extractPapMetadata(result.headers, startTime), queue_ms: queueMs },
+    };
+
+    storeCachedResponse(request, response, options);
+    return response;
+  }
+
+  /**
+   * Stream a chat completion through the Model Router token by token
+   *
+   * Yields `delta` events as text arrives and a final `done` event with the
+   * full answer, token usage and PAP cost metadata. Opening the stream is
+   * retried like chat(); once output has started, errors are thrown to the
+   * caller (including errors the router reports mid-stream).
+   *
+   * @example
+   * for await (const event of modelRouter.chatStream({ model: 'gpt-4o', messages })) {
+   *   if (event.type === 'delta') process.stdout.write(event.content);
+   * }
+   */
+  async *chatStream(
+    request: ChatCompletionRequest,
+    options: ChatOptions = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    const requestId = uuidv4();
+    const startTime = Date.now();
+
+    // Scheduler slot of the attempt whose stream is read - held until the stream ends
+    let slot: CallSlot | undefined;
+    // Attempt whose stream is being read
+    let active: StreamAttempt | undefined;
+    let completed = false;
+
+    try {
+      // Time to first byte counts for the breaker - the full stream length depends on the answer
+      const retried = await callWithRetries(
+        request.model,
+        this.retryPolicies.get(request.model),
+        options,
+        'ModelRouter',
+        async () => {
+          // Each attempt gets its own controller - an idle timeout only ends that attempt
+          const attempt = createStreamAttempt(this.timeout, options.signal);
+          try {
+            const response = await this.fetchRouter(
+              '/v1/chat/completions',
+              {
+                ...request,
+                stream: true,
+                stream_options: { include_usage: true }, // Final chunk carries token usage
+              },
+              requestId,
+              'POST',
+              attempt.signal
+            );
+            return { response, attempt };
+          } catch (error) {
+            attempt.dispose();
+            throw error;
+          }
+        },
+        true
+      );
+      const { response, attempt } = retried.value;
+      slot = retried.slot;
+      active = attempt;
+
+      if (!response.body) {
+        throw new ModelRouterError('Model Router returned an empty stream', 502);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+      let id = '';
+      let model = request.model;
+      let finishReason: ChatCompletionChoice['finish_reason'] = null;
+      let usage: UsageInfo | undefined;
+      const toolCalls: ToolCall[] = [];
+      let done = false;
+
+      while (!done) {
+        const { value, done: streamEnded } = await reader.read();
+        if (streamEnded) break;
+        attempt.resetIdleTimer();
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          if (!line.startsWith('data:')) continue; // Skip comments, event names and keep-alives
+
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') {
+            done = true;
+            break;
+          }
 
-        if (attempt < this.retries) {
-          await this.delay(this.retryDelay * (attempt + 1)); // Exponential backoff
+          const chunk = JSON.parse(payload) as ChatCompletionChunk;
+
+          // Provider failure after the stream started
+          if (chunk.error) {
+            const status = typeof chunk.error.code === 'number' ? chunk.error.code : 502;
+            throw new ModelRouterError(chunk.error.message || 'Stream failed', status);
+          }
+
+          id = chunk.id || id;
+          model = chunk.model || model;
+          if (chunk.usage) usage = chunk.usage;
+
+          const choice = chunk.choices?.[0];
+          if (choice?.finish_reason) finishReason = choice.finish_reason;
+
+          if (choice?.delta?.tool_calls) {
+            mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+          }
+
+          const delta = choice?.delta?.content;
+          if (delta) {
+            content += delta;
+            yield { type: 'delta', content: delta };
+          }
         }
       }
+
+      if (!done && !finishReason) {
+        throw new ModelRouterError('Chat stream ended before completion', 502);
+      }
+
+      completed = true;
+      yield {
+        type: 'done',
+        id,
+        model,
+        content,
+        finish_reason: finishReason,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage,
+        pap_metadata: { ...this.extractPapMetadata(response.headers, startTime), queue_ms: retried.queueMs },
+      };
+    } finally {
+      slot?.release();
+      active?.dispose();
+      // Stop the router generating tokens nobody will read (a finished
+      // stream is left to close by itself so cassette recording completes)
+      if (!completed) {
+        active?.abort();
+      }
     }
+  }
+
+  /**
+   * Request embedding vectors for one or more texts through the Model Router
+   *
+   * Used by the consensus engine for semantic similarity scoring.
+   * Vectors are returned in the same order as the input texts.
+   *
+   * @example
+   * const response = await modelRouter.embeddings({
+   *   model: 'text-embedding-3-small',
+   *   input: ['first answer', 'second answer'],
+   * });
+   */
+  async embeddings(request: EmbeddingRequest, options: ChatOptions = {}): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
 
-    throw lastError || new Error('Unknown error during chat completion');
+    const { data, headers } = await this.makeRequest<Omit<EmbeddingResponse, 'pap_metadata'>>(
+      '/v1/embeddings',
+      request,
+      uuidv4(),
+      'POST',
+      options.signal
+    );
+
+    return {
+      ...data,
+      // Providers may return items out of order - restore input order
+      data: [...data.data].sort((a, b) => a.index - b.index),
+      pap_metadata: this.extractPapMetadata(headers, startTime),
+    };
   }
 
   /**
    * Get list of available models from the Model Router
+   *
+   * Capabilities, context window and pricing come from the router when it
+   * reports them and from the model catalog otherwise.
    */
   async listModels(): Promise<ModelInfo[]> {
-    const { data } = await this.makeRequest<{ data: Array<{ id: string; owned_by: string }> }>(
+    const { data } = await this.makeRequest<{ data: RouterModel[] }>(
       '/v1/models',
       null,
       uuidv4(),
@@ -244,13 +642,14 @@ export class ModelRouterClient {
     );
 
     // Map to ModelInfo format
-    return data.data.map(m => ({
+    return data.data.map(m => withCatalogDefaults({
       id: m.id,
-      name: m.id,
+      name: m.name,
       provider: m.owned_by,
-      capabilities: ['chat'],
-      context_length: 4096, // Default, actual value varies by model
-      pricing: { input_per_1k: 0, output_per_1k: 0 },
+      capabilities: m.capabilities,
+      context_length: m.context_length ?? m.context_window,
+      max_output_tokens: m.max_output_tokens,
+      pricing: m.pricing,
     }));
   }
 
@@ -277,15 +676,51 @@ export class ModelRouterClient {
     endpoint: string,
     body: unknown | null,
     requestId: string,
-    method: 'GET' | 'POST' = 'POST'
+    method: 'GET' | 'POST' = 'POST',
+    signal?: AbortSignal
   ): Promise<{ data: T; headers: Headers }> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
+    // Propagate caller cancellation to the in-flight fetch
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
     try {
+      const response = await this.fetchRouter(endpoint, body, requestId, method, controller.signal);
+      const data = await response.json() as T;
+      return { data, headers: response.headers };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Send an authenticated request to the Model Router
+   * Throws a typed error for non-2xx responses
+   *
+   * With ROUTER_CASSETTE_MODE set, responses are recorded to (or replayed
+   * from) cassettes - replayed errors are thrown like live ones.
+   *
+   * A live 401 triggers one token rotation attempt; the request is resent
+   * once if a new token is available.
+   */
+  private async fetchRouter(
+    endpoint: string,
+    body: unknown | null,
+    requestId: string,
+    method: 'GET' | 'POST',
+    signal: AbortSignal
+  ): Promise<Response> {
+    const send = (token: string): Promise<Response> => {
       const headers: Record<string, string> = {
         // JWT authentication - token issued by Station
-        'Authorization': `Bearer ${this.token}`,
+        'Authorization': `Bearer ${token}`,
         // PAP headers for tracking and observability
         'X-PAP-Agent-Id': this.agentId,
         'X-PAP-Request-Id': requestId,
@@ -295,54 +730,323 @@ export class ModelRouterClient {
         headers['Content-Type'] = 'application/json';
       }
 
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      return fetch(`${this.baseUrl}${endpoint}`, {
         method,
         headers,
         body: body ? JSON.stringify(body) : undefined,
-        signal: controller.signal,
+        signal,
       });
+    };
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        let errorMessage = `HTTP ${response.status}`;
+    const cassettes = getCassetteStore();
+    const cassetteKey = cassettes?.nextKey(method, endpoint, body);
+    let response: Response;
 
-        try {
-          const errorJson = JSON.parse(errorBody);
-          errorMessage = errorJson.error?.message || errorJson.message || errorMessage;
-        } catch {
-          errorMessage = errorBody || errorMessage;
-        }
+    if (cassettes?.mode === 'replay') {
+      const replayed = await cassettes.replay(cassetteKey!);
+      if (!replayed) {
+        throw new ModelRouterError(`No cassette recorded for ${method} ${endpoint} (${cassetteKey})`, 404);
+      }
+      response = replayed;
+    } else {
+      const token = this.tokens.getToken();
+      response = await send(token);
 
-        // Handle specific error codes
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          throw new RateLimitError(errorMessage, retryAfter ? parseInt(retryAfter) : undefined);
-        }
+      if (response.status === 401 && await this.tokens.handleUnauthorized(token)) {
+        console.warn(`[ModelRouter] Token rejected, retrying ${method} ${endpoint} with the rotated token`);
+        await response.body?.cancel();
+        response = await send(this.tokens.getToken());
+      }
+      if (response.ok) {
+        this.tokens.recordSuccess();
+      }
 
-        if (response.status === 402) {
-          throw new BudgetExceededError(errorMessage);
-        }
+      // Recorded in the background from a clone - streams are saved once they finish
+      if (cassettes) {
+        void cassettes.record(cassetteKey!, { method, endpoint, body }, response.clone());
+      }
+    }
 
-        if (response.status === 401) {
-          // Token may be revoked - this is a critical error
-          throw new AuthenticationError(errorMessage);
-        }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      let errorMessage = `HTTP ${response.status}`;
 
-        throw new ModelRouterError(errorMessage, response.status);
+      try {
+        const errorJson = JSON.parse(errorBody);
+        errorMessage = errorJson.error?.message || errorJson.message || errorMessage;
+      } catch {
+        errorMessage = errorBody || errorMessage;
       }
 
-      const data = await response.json() as T;
-      return { data, headers: response.headers };
-    } finally {
-      clearTimeout(timeoutId);
+      // Handle specific error codes
+      if (response.status === 429) {
+        throw new RateLimitError(errorMessage, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      if (response.status === 402) {
+        throw new BudgetExceededError(errorMessage);
+      }
+
+      if (response.status === 401) {
+        // Token revoked and no rotated token available - the agent is degraded
+        throw new AuthenticationError(errorMessage);
+      }
+
+      throw new ModelRouterError(errorMessage, response.status);
+    }
+
+    return response;
+  }
+
+  /**
+   * Extract PAP metadata from Model Router response headers
+   */
+  private extractPapMetadata(headers: Headers, startTime: number): PAPMetadata {
+    return {
+      cost_usd: parseFloat(headers.get('X-Request-Cost') || '0'),
+      latency_ms: parseInt(headers.get('X-Request-Latency-Ms') || '0') || (Date.now() - startTime),
+      provider: headers.get('X-Model-Provider') || 'unknown',
+      cached: headers.get('X-Cache-Status') === 'HIT',
+      cache_source: headers.get('X-Cache-Status') === 'HIT' ? 'router' : undefined,
+    };
+  }
+}
+
+// ============================================================================
+// SHARED CALL HANDLING
+// ============================================================================
+
+/**
+ * Outcome of callWithRetries
+ */
+export interface RetriedCall<T> {
+  value: T;
+  /** Scheduler slot of the successful attempt (already released unless holdSlot was set) */
+  slot: CallSlot;
+  /** Time all attempts together waited for a scheduler slot */
+  queueMs: number;
+}
+
+/**
+ * Run a provider call under the model's circuit breaker and retry policy
+ *
+ * Shared by the Model Router client and the direct provider client.
+ * Cancelled calls and authentication errors are never retried.
+ *
+ * Every attempt takes its own scheduler slot and gives it back before the
+ * backoff, so calls waiting out a Retry-After do not block other models.
+ * With holdSlot the successful attempt keeps its slot (streams hold it
+ * until they end) and the caller releases it.
+ */
+export async function callWithRetries<T>(
+  model: string,
+  policy: RetryPolicy,
+  options: ChatOptions,
+  logPrefix: string,
+  send: () => Promise<T>,
+  holdSlot = false
+): Promise<RetriedCall<T>> {
+  const breaker = isCircuitBreakerEnabled() ? getCircuitBreaker(model) : null;
+  let queueMs = 0;
+
+  for (let attempt = 0; ; attempt++) {
+    // Wait for room under the concurrency limits
+    const slot = await acquireCallSlot(model, options);
+    queueMs += slot.queueMs;
+
+    // Fail fast while the model's circuit is open
+    if (breaker && !breaker.tryAcquire()) {
+      slot.release();
+      throw new CircuitOpenError(model);
+    }
+
+    // Started after the slot wait - queueing is not a slow call
+    const attemptStartTime = Date.now();
+    try {
+      const value = await send();
+      breaker?.recordSuccess(Date.now() - attemptStartTime);
+      if (!holdSlot) {
+        slot.release();
+      }
+      return { value, slot, queueMs };
+    } catch (error) {
+      slot.release();
+      recordBreakerFailure(breaker, error, options.signal);
+
+      // Caller cancelled - don't retry
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      console.warn(
+        `[${logPrefix}] Attempt ${attempt + 1}/${policy.config.maxRetries + 1} failed for ${model}:`,
+        error instanceof Error ? error.message : error
+      );
+
+      // Don't retry on authentication errors - token or API key may be revoked
+      if (error instanceof AuthenticationError) {
+        console.error(`[${logPrefix}] Authentication failed - credentials may be revoked`);
+        throw error;
+      }
+
+      const delayMs = policy.getRetryDelay(error, attempt, options.retryBudget);
+      if (delayMs === null) {
+        throw error;
+      }
+      await waitForRetry(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Back off before a retry; rejects with the signal's reason as soon as
+ * the caller cancels instead of sleeping out the delay
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
     }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Abort controller of one streaming attempt
+ */
+interface StreamAttempt {
+  signal: AbortSignal;
+  /** Restart the idle timeout (the router sent data) */
+  resetIdleTimer(): void;
+  abort(): void;
+  /** Stop the idle timer and detach from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Start a streaming attempt: aborted by the caller's signal or when the
+ * router sends nothing for `idleTimeoutMs`
+ */
+function createStreamAttempt(idleTimeoutMs: number, signal?: AbortSignal): StreamAttempt {
+  const controller = new AbortController();
+
+  // Propagate caller cancellation to the in-flight fetch
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  let timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+
+  return {
+    signal: controller.signal,
+    resetIdleTimer() {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), idleTimeoutMs);
+    },
+    abort() {
+      controller.abort();
+    },
+    dispose() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Assemble streamed tool call fragments (OpenAI stream format)
+ * The first fragment of a call carries its id and name; later ones append arguments.
+ */
+export function mergeToolCallDeltas(toolCalls: ToolCall[], deltas: ToolCallDelta[]): void {
+  for (const delta of deltas) {
+    const call = (toolCalls[delta.index] ??= {
+      id: '',
+      type: 'function',
+      function: { name: '', arguments: '' },
+    });
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.function.name += delta.function.name;
+    if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+  }
+}
+
+/**
+ * Record a failed attempt on the model's circuit breaker
+ *
+ * Only provider health counts: caller cancellations and client errors
+ * (bad request, auth, budget) do not open the circuit.
+ */
+function recordBreakerFailure(
+  breaker: CircuitBreaker | null,
+  error: unknown,
+  signal?: AbortSignal
+): void {
+  if (!breaker) return;
+
+  const isClientError =
+    error instanceof ModelRouterError &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 429;
+
+  if (signal?.aborted || isClientError) {
+    breaker.recordCancelled();
+  } else {
+    breaker.recordFailure();
   }
 }
 
+/**
+ * Look up a chat request in the response cache (when the call opts in)
+ */
+export async function getCachedResponse(
+  request: ChatCompletionRequest,
+  options: ChatOptions,
+  startTime: number
+): Promise<ChatCompletionResponse | undefined> {
+  const cache = options.cache ? getResponseCache() : null;
+  const cached = await cache?.get(request);
+  if (!cached) return undefined;
+
+  return {
+    ...cached,
+    pap_metadata: {
+      ...cached.pap_metadata,
+      cost_usd: 0, // Not billed again
+      latency_ms: Date.now() - startTime,
+      cached: true,
+      cache_source: 'local',
+      queue_ms: 0,
+    },
+  };
+}
+
+/**
+ * Store a chat response in the response cache (when the call opts in)
+ * Stored in the background - a slow cache never delays the answer
+ */
+export function storeCachedResponse(
+  request: ChatCompletionRequest,
+  response: ChatCompletionResponse,
+  options: ChatOptions
+): void {
+  if (!options.cache) return;
+  void getResponseCache()?.set(request, response);
+}
+
 // ============================================================================
 // CUSTOM ERROR CLASSES
 // ============================================================================
@@ -387,11 +1091,72 @@ export class AuthenticationError extends ModelRouterError {
   }
 }
 
+/**
+ * The model's circuit breaker is open - the call was not attempted
+ */
+export class CircuitOpenError extends ModelRouterError {
+  constructor(public model: string) {
+    super(`Circuit open for ${model} - skipping until it recovers`, 503);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// ============================================================================
+// MODEL INFO
+// ============================================================================
+
+// Model list is re-fetched from the provider after this long
+const MODEL_LIST_TTL_MS = 5 * 60 * 1000;
+
+let modelListCache: {
+  fetchedAt: number;
+  provider: ChatProvider;
+  models: Promise<Map<string, ModelInfo>>;
+} | null = null;
+
+/**
+ * Get capabilities, context window and pricing of a model
+ *
+ * Looks the model up in the provider's model list (cached) and falls back
+ * to the model catalog.
+ *
+ * @returns The model info, or undefined when neither source knows the model
+ */
+export async function getModelInfo(modelId: string): Promise<ModelInfo | undefined> {
+  const provider = modelRouterInstance;
+
+  if (
+    provider &&
+    (!modelListCache ||
+      modelListCache.provider !== provider ||
+      Date.now() - modelListCache.fetchedAt >= MODEL_LIST_TTL_MS)
+  ) {
+    // Cache the promise so concurrent lookups share one request
+    modelListCache = {
+      fetchedAt: Date.now(),
+      provider,
+      models: provider.listModels().then(
+        models => new Map(models.map(m => [m.id, m])),
+        error => {
+          console.warn('[ModelRouter] Could not list models:', error instanceof Error ? error.message : error);
+          return new Map<string, ModelInfo>();
+        }
+      ),
+    };
+  }
+
+  const listed = (await modelListCache?.models)?.get(modelId);
+  if (listed) return listed;
+
+  const catalog = getCatalogModel(modelId);
+  return catalog ? withCatalogDefaults(catalog) : undefined;
+}
+
 // ============================================================================
 // SINGLETON INSTANCE
 // ============================================================================
 
-let modelRouterInstance: ModelRouterClient | null = null;
+let modelRouterInstance: ChatProvider | null = null;
 
 /**
  * Initialize the Model Router client
@@ -404,17 +1169,28 @@ let modelRouterInstance: ModelRouterClient | null = null;
  *   baseUrl: process.env.MODEL_ROUTER_URL || '',
  *   agentId: process.env.PAP_AGENT_ID || '',
  *   token: process.env.MODEL_ROUTER_TOKEN || '',
+ *   tokenFile: process.env.MODEL_ROUTER_TOKEN_FILE,
  * });
  */
 export function initializeModelRouter(config: ModelRouterConfig): ModelRouterClient {
-  modelRouterInstance = new ModelRouterClient(config);
-  return modelRouterInstance;
+  const client = new ModelRouterClient(config);
+  modelRouterInstance = client;
+  return client;
+}
+
+/**
+ * Install another ChatProvider in place of the Model Router client
+ * (e.g. the direct provider client for self-hosted deployments)
+ */
+export function setChatProvider(provider: ChatProvider): ChatProvider {
+  modelRouterInstance = provider;
+  return provider;
 }
 
 /**
- * Get the initialized Model Router client
+ * Get the initialized Model Router client (or the provider installed in its place)
  *
- * @returns The Model Router client instance, or null if not initialized
+ * @returns The chat provider instance, or null if not initialized
  *
  * @example
  * const router = getModelRouter();
@@ -422,6 +1198,6 @@ export function initializeModelRouter(config: ModelRouterConfig): ModelRouterCli
  *   const response = await router.chat({ model: 'gpt-4o', messages: [...] });
  * }
  */
-export function getModelRouter(): ModelRouterClient | null {
+export function getModelRouter(): ChatProvider | null {
   return modelRouterInstance;
 }
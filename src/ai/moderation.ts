@@ -0,0 +1,150 @@
+/**
+ * Output Moderation
+ *
+ * Checks jury output with validateOutput() before it reaches the caller:
+ * each juror's final answer (before consensus is computed), then the
+ * synthesized and refined answers, which no juror wrote. What happens to
+ * flagged output depends on the policy:
+ * - ANNOTATE: Report flagged answers, change nothing
+ * - REDACT: Drop flagged juror answers before consensus; a flagged
+ *   synthesized or refined answer falls back to the medoid juror answer
+ * - BLOCK: Withhold the whole verdict (GuardrailError)
+ *
+ * Checks that fail (router down, unparseable reply) are marked unchecked.
+ * They fail open only under ANNOTATE; under REDACT and BLOCK an unchecked
+ * answer is treated as flagged.
+ *
+ * ENVIRONMENT VARIABLES:
+ * - ENABLE_OUTPUT_MODERATION: Set to 'true' to moderate jury output
+ * - OUTPUT_MODERATION_POLICY: annotate | redact | block (default: annotate)
+ * - MODERATION_MODEL: Model for the checks (default: gemini-1.5-flash)
+ */
+
+import { validateOutput } from './guardrails.js';
+import type { ModelResponse } from './consensus.js';
+import type { CallUsage } from './usage.js';
+
+export type ModerationPolicy = 'annotate' | 'redact' | 'block';
+
+export const MODERATION_POLICIES: ModerationPolicy[] = ['annotate', 'redact', 'block'];
+
+/**
+ * Moderation result for one answer
+ */
+export interface ModerationCheck {
+  /** Juror model, or "synthesis" / "reflection" for generated answers */
+  target: string;
+  allowed: boolean;
+  riskLevel: 'low' | 'medium' | 'high';
+  /** Concerns when flagged, or why the check could not run */
+  reason?: string;
+  /** The check could not run (flagged unless the policy is annotate) */
+  unchecked?: boolean;
+}
+
+/**
+ * Moderation outcome of a query
+ */
+export interface ModerationOutcome {
+  policy: ModerationPolicy;
+  model: string;
+  checks: ModerationCheck[];
+  /** Targets whose answers were flagged */
+  flagged: string[];
+  /** Targets whose answers were removed (redact policy) */
+  redacted: string[];
+}
+
+const DEFAULT_CONCERN = 'Flagged by output moderation';
+
+/**
+ * Check answers in parallel (one moderation call each)
+ * Failed checks only let the answer through under the annotate policy
+ */
+export async function moderateAnswers(
+  question: string,
+  answers: Array<{ target: string; text: string }>,
+  policy: ModerationPolicy,
+  signal?: AbortSignal
+): Promise<Array<{ check: ModerationCheck; usage?: CallUsage }>> {
+  return Promise.all(answers.map(async ({ target, text }) => {
+    const result = await validateOutput(question, text, signal);
+    const unchecked = result.checked === false;
+    const allowed = unchecked ? policy === 'annotate' : result.allowed;
+    const check: ModerationCheck = {
+      target,
+      allowed,
+      riskLevel: result.riskLevel,
+      reason: allowed ? result.reason : result.reason || DEFAULT_CONCERN,
+      unchecked: unchecked || undefined,
+    };
+    if (!check.allowed) {
+      console.warn(`[Moderation] Flagged ${target}: ${check.reason}`);
+    }
+    return { check, usage: result.usage };
+  }));
+}
+
+/**
+ * Check juror answers and apply the policy to flagged ones
+ *
+ * Flagged jurors carry `moderationFlag`; with the redact policy their
+ * answer is removed and they count as failed.
+ */
+export async function moderateJurorAnswers(
+  question: string,
+  responses: ModelResponse[],
+  policy: ModerationPolicy,
+  signal?: AbortSignal
+): Promise<{ responses: ModelResponse[]; checks: ModerationCheck[]; usages: CallUsage[] }> {
+  const results = await moderateAnswers(
+    question,
+    responses
+      .filter(r => r.success && r.answer)
+      .map(r => ({ target: r.model, text: r.reasoning ? `${r.answer}\n\n${r.reasoning}` : r.answer })),
+    policy,
+    signal
+  );
+
+  const concerns = new Map(
+    results
+      .filter(({ check }) => !check.allowed)
+      .map(({ check }) => [check.target, check.reason ?? DEFAULT_CONCERN])
+  );
+
+  return {
+    responses: responses.map((response): ModelResponse => {
+      const concern = concerns.get(response.model);
+      if (!concern) return response;
+
+      return policy === 'redact'
+        ? {
+            ...response,
+            answer: '',
+            reasoning: undefined,
+            structuredAnswer: undefined,
+            success: false,
+            error: `Redacted by output moderation: ${concern}`,
+            moderationFlag: concern,
+          }
+        : { ...response, moderationFlag: concern };
+    }),
+    checks: results.map(({ check }) => check),
+    usages: results.flatMap(({ usage }) => (usage ? [usage] : [])),
+  };
+}
+
+/**
+ * Check if output moderation is enabled via environment variable
+ */
+export function isOutputModerationEnabled(): boolean {
+  return process.env.ENABLE_OUTPUT_MODERATION === 'true';
+}
+
+/**
+ * Get the moderation policy from env
+ */
+export function getModerationPolicy(): ModerationPolicy {
+  const policy = process.env.OUTPUT_MODERATION_POLICY as ModerationPolicy | undefined;
+  return policy && MODERATION_POLICIES.includes(policy) ? policy : 'annotate';
+}
@@ -0,0 +1,159 @@
+/**
+ * Model Aliases and Jury Panels
+ *
+ * Lets callers and operators name models and juries instead of pinning
+ * dated router IDs:
+ * - Aliases: stable names for a model, e.g. claude-latest → claude-3-5-sonnet-20241022
+ * - Panels: named juries, e.g. "fast" or "frontier", resolved to model lists
+ *
+ * A panel lists candidate models (IDs or aliases) in order of preference,
+ * with optional provider-diversity rules:
+ * - maxPerProvider: Skip candidates once their provider has this many jurors
+ * - size: Keep the first N jurors
+ * - minProviders: Reject the panel unless its jurors span this many providers
+ *
+ * Providers come from the model catalog (or a `provider/` model prefix).
+ * Panels that break their rules are dropped with a warning when the
+ * registry loads. The bundled registry (src/config/panels.json) can be
+ * replaced with PANELS_CONFIG_PATH.
+ */
+
+import { readFileSync } from 'fs';
+import bundledRegistry from '../config/panels.json';
+import { getCatalogModel } from './model-catalog.js';
+
+export interface PanelDefinition {
+  description?: string;
+  /** Candidate models (IDs or aliases), most preferred first */
+  models: string[];
+  size?: number;
+  maxPerProvider?: number;
+  minProviders?: number;
+}
+
+export interface PanelRegistryConfig {
+  aliases?: Record<string, string>;
+  panels?: Record<string, PanelDefinition>;
+}
+
+/**
+ * A panel with its jurors resolved to model IDs
+ */
+export interface JuryPanel {
+  name: string;
+  description?: string;
+  models: string[];
+  providers: string[];
+}
+
+interface PanelRegistry {
+  aliases: Map<string, string>;
+  panels: Map<string, JuryPanel>;
+}
+
+let registryInstance: PanelRegistry | null = null;
+
+/**
+ * Provider of a model (`provider/model` prefix, then the catalog)
+ */
+export function getModelProvider(model: string): string {
+  const slash = model.indexOf('/');
+  if (slash > 0) return model.slice(0, slash);
+  return getCatalogModel(model)?.provider ?? 'unknown';
+}
+
+/**
+ * Apply a panel's rules to its candidates
+ *
+ * @throws Error when the jurors span fewer than minProviders providers
+ */
+function buildPanel(name: string, definition: PanelDefinition, aliases: Map<string, string>): JuryPanel {
+  const perProvider = new Map<string, number>();
+  const models: string[] = [];
+
+  for (const candidate of definition.models) {
+    const model = aliases.get(candidate) ?? candidate;
+    if (models.includes(model)) continue;
+    if (definition.size !== undefined && models.length >= definition.size) break;
+
+    const provider = getModelProvider(model);
+    const count = perProvider.get(provider) ?? 0;
+    if (definition.maxPerProvider !== undefined && count >= definition.maxPerProvider) continue;
+
+    perProvider.set(provider, count + 1);
+    models.push(model);
+  }
+
+  if (models.length === 0) {
+    throw new Error('no models');
+  }
+  if (definition.minProviders !== undefined && perProvider.size < definition.minProviders) {
+    throw new Error(`jurors span ${perProvider.size} providers, ${definition.minProviders} required`);
+  }
+
+  return { name, description: definition.description, models, providers: [...perProvider.keys()] };
+}
+
+/**
+ * Load the registry (PANELS_CONFIG_PATH or the bundled file), once
+ */
+function getRegistry(): PanelRegistry {
+  if (registryInstance) return registryInstance;
+
+  let config = bundledRegistry as PanelRegistryConfig;
+  const configPath = process.env.PANELS_CONFIG_PATH;
+  if (configPath) {
+    try {
+      config = JSON.parse(readFileSync(configPath, 'utf-8')) as PanelRegistryConfig;
+      console.log(`[Panels] Loaded panel registry from ${configPath}`);
+    } catch (error) {
+      console.warn(
+        `[Panels] Could not load ${configPath}, using bundled registry:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  const aliases = new Map(Object.entries(config.aliases ?? {}));
+  const panels = new Map<string, JuryPanel>();
+  for (const [name, definition] of Object.entries(config.panels ?? {})) {
+    try {
+      panels.set(name, buildPanel(name, definition, aliases));
+    } catch (error) {
+      console.warn(`[Panels] Skipping panel "${name}":`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  registryInstance = { aliases, panels };
+  return registryInstance;
+}
+
+/**
+ * Model ID for an alias (other names are returned unchanged)
+ */
+export function resolveModelAlias(model: string): string {
+  return getRegistry().aliases.get(model) ?? model;
+}
+
+/**
+ * Resolve aliases in a model list, dropping duplicates
+ */
+export function resolveModelAliases(models: string[]): string[] {
+  return [...new Set(models.map(resolveModelAlias))];
+}
+
+export function getModelAliases(): Record<string, string> {
+  return Object.fromEntries(getRegistry().aliases);
+}
+
+export function hasPanel(name: string): boolean {
+  return getRegistry().panels.has(name);
+}
+
+export function getPanel(name: string): JuryPanel | undefined {
+  return getRegistry().panels.get(name);
+}
+
+export function listPanels(): JuryPanel[] {
+  return [...getRegistry().panels.values()];
+}
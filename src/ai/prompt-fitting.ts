@@ -0,0 +1,280 @@
+/**
+ * Prompt Fitting
+ *
+ * Fits each juror prompt into the model's context window before the call,
+ * instead of letting a large `context` fail on small-window models. The
+ * system prompt and question are never trimmed; conversation memory is
+ * dropped first, then the caller's context is truncated.
+ *
+ * Token counts are estimates (characters / 4) with a safety margin - a
+ * provider tokenizer is not available for every model.
+ *
+ * Deliberation prompts are fitted the same way: the other jurors' answers
+ * are shortened first, then the context is truncated.
+ *
+ * Strategies:
+ * - FITS: The full prompt fits
+ * - DROPPED_MEMORY: Session memory was left out, context kept in full
+ * - TRIMMED_PEER_ANSWERS: Other jurors' answers shortened (deliberation)
+ * - TRUNCATED_CONTEXT: Memory left out (or peer answers shortened) and the context cut to fit
+ */
+
+import { getModelInfo } from './model-router.js';
+
+export type PromptFitStrategy = 'fits' | 'dropped_memory' | 'trimmed_peer_answers' | 'truncated_context';
+
+export interface PromptFit {
+  contextWindow: number;
+  strategy: PromptFitStrategy;
+  /** Estimated prompt tokens before fitting */
+  originalTokens: number;
+  /** Estimated prompt tokens sent */
+  fittedTokens: number;
+  /** Output tokens reserved (max_tokens of the call) */
+  maxOutputTokens: number;
+}
+
+export interface FittedPrompt {
+  context?: string;
+  memory?: string;
+  maxOutputTokens: number;
+  /** Undefined when the model's context window is unknown */
+  fit?: PromptFit;
+}
+
+export interface FittedDeliberationPrompt {
+  context?: string;
+  peerAnswers: string[];
+  maxOutputTokens: number;
+  /** Undefined when the model's context window is unknown */
+  fit?: PromptFit;
+}
+
+/**
+ * The question and system prompt alone exceed the model's context window
+ */
+export class PromptTooLargeError extends Error {
+  constructor(
+    public model: string,
+    public requiredTokens: number,
+    public contextWindow: number
+  ) {
+    super(
+      `Prompt needs ~${requiredTokens} tokens but ${model} has a ${contextWindow}-token context window`
+    );
+    this.name = 'PromptTooLargeError';
+  }
+}
+
+// Rough token estimate for English text
+const CHARS_PER_TOKEN = 4;
+
+// Share of the window used - the estimate can undercount
+const WINDOW_SAFETY_MARGIN = 0.9;
+
+// Role markers and "Context:"/"Question:" labels
+const MESSAGE_OVERHEAD_TOKENS = 20;
+
+const TRUNCATION_MARKER = '\n\n[... context truncated to fit the model context window]';
+
+const PEER_TRUNCATION_MARKER = ' [... answer shortened]';
+
+// Peer answers are not shortened below this before the context is truncated
+const MIN_PEER_ANSWER_CHARS = 300;
+
+export function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Fit a juror prompt into the model's context window
+ *
+ * @throws PromptTooLargeError if the question and system prompt alone do not fit
+ */
+export async function fitJurorPrompt(params: {
+  model: string;
+  systemPrompt: string;
+  question: string;
+  context?: string;
+  memory?: string;
+  maxOutputTokens: number;
+}): Promise<FittedPrompt> {
+  const { model, systemPrompt, question, context, memory } = params;
+
+  const window = await getPromptWindow(model, params.maxOutputTokens);
+  if (!window) {
+    return { context, memory, maxOutputTokens: params.maxOutputTokens };
+  }
+
+  const { contextWindow, maxOutputTokens, available } = window;
+  const fixedTokens = estimateTokens(systemPrompt) + estimateTokens(question) + MESSAGE_OVERHEAD_TOKENS;
+  const contextTokens = estimateTokens(context);
+  const memoryTokens = estimateTokens(memory);
+  const originalTokens = fixedTokens + contextTokens + memoryTokens;
+
+  const result = (
+    strategy: PromptFitStrategy,
+    fitted: { context?: string; memory?: string }
+  ): FittedPrompt => ({
+    ...fitted,
+    maxOutputTokens,
+    fit: {
+      contextWindow,
+      strategy,
+      originalTokens,
+      fittedTokens: fixedTokens + estimateTokens(fitted.context) + estimateTokens(fitted.memory),
+      maxOutputTokens,
+    },
+  });
+
+  if (originalTokens <= available) {
+    return result('fits', { context, memory });
+  }
+
+  if (fixedTokens > available) {
+    throw new PromptTooLargeError(model, fixedTokens + maxOutputTokens, contextWindow);
+  }
+
+  // Memory is the least important input - drop it before touching the context
+  const remaining = available - fixedTokens;
+  if (contextTokens <= remaining) {
+    console.log(`[PromptFitting] Dropped session memory to fit ${model} (${contextWindow} tokens)`);
+    return result('dropped_memory', { context });
+  }
+
+  console.log(
+    `[PromptFitting] Truncated context from ~${contextTokens} to ~${remaining} tokens to fit ${model} ` +
+    `(${contextWindow} tokens)`
+  );
+  return result('truncated_context', { context: truncateContext(context!, remaining) });
+}
+
+/**
+ * Fit a deliberation prompt into the model's context window
+ *
+ * `instructions` is the deliberation prompt with the juror's own previous
+ * answer filled in - it is never trimmed, like the question.
+ *
+ * @throws PromptTooLargeError if the fixed parts and the shortest peer answers do not fit
+ */
+export async function fitDeliberationPrompt(params: {
+  model: string;
+  systemPrompt: string;
+  instructions: string;
+  question: string;
+  context?: string;
+  peerAnswers: string[];
+  maxOutputTokens: number;
+}): Promise<FittedDeliberationPrompt> {
+  const { model, systemPrompt, instructions, question, context, peerAnswers } = params;
+
+  const window = await getPromptWindow(model, params.maxOutputTokens);
+  if (!window) {
+    return { context, peerAnswers, maxOutputTokens: params.maxOutputTokens };
+  }
+
+  const { contextWindow, maxOutputTokens, available } = window;
+  const fixedTokens =
+    estimateTokens(systemPrompt) + estimateTokens(instructions) + estimateTokens(question) + MESSAGE_OVERHEAD_TOKENS;
+  const contextTokens = estimateTokens(context);
+  const peerTokens = (answers: string[]) => answers.reduce((sum, answer) => sum + estimateTokens(answer), 0);
+  const originalTokens = fixedTokens + contextTokens + peerTokens(peerAnswers);
+
+  const result = (
+    strategy: PromptFitStrategy,
+    fitted: { context?: string; peerAnswers: string[] }
+  ): FittedDeliberationPrompt => ({
+    ...fitted,
+    maxOutputTokens,
+    fit: {
+      contextWindow,
+      strategy,
+      originalTokens,
+      fittedTokens: fixedTokens + estimateTokens(fitted.context) + peerTokens(fitted.peerAnswers),
+      maxOutputTokens,
+    },
+  });
+
+  if (originalTokens <= available) {
+    return result('fits', { context, peerAnswers });
+  }
+
+  // Peer answers share what the context leaves over, down to a floor
+  const peerChars = Math.floor(((available - fixedTokens - contextTokens) * CHARS_PER_TOKEN) / peerAnswers.length);
+  if (peerChars >= MIN_PEER_ANSWER_CHARS) {
+    console.log(
+      `[PromptFitting] Shortened peer answers to ${peerChars} characters to fit ${model} (${contextWindow} tokens)`
+    );
+    return result('trimmed_peer_answers', { context, peerAnswers: shortenAnswers(peerAnswers, peerChars) });
+  }
+
+  const shortened = shortenAnswers(peerAnswers, MIN_PEER_ANSWER_CHARS);
+  const remaining = available - fixedTokens - peerTokens(shortened);
+  if (remaining < 0) {
+    throw new PromptTooLargeError(model, fixedTokens + peerTokens(shortened) + maxOutputTokens, contextWindow);
+  }
+
+  console.log(
+    `[PromptFitting] Shortened peer answers and truncated context from ~${contextTokens} to ~${remaining} ` +
+    `tokens to fit ${model} (${contextWindow} tokens)`
+  );
+  return result('truncated_context', {
+    context: context && truncateContext(context, remaining),
+    peerAnswers: shortened,
+  });
+}
+
+/**
+ * Context window, output reservation and tokens left for the prompt
+ * (null when the model's window is unknown)
+ */
+async function getPromptWindow(
+  model: string,
+  requestedOutputTokens: number
+): Promise<{ contextWindow: number; maxOutputTokens: number; available: number } | null> {
+  const info = await getModelInfo(model);
+  const contextWindow = info?.context_length ?? getDefaultContextWindow();
+  if (!contextWindow) return null;
+
+  // Leave at least half the window for the prompt
+  const maxOutputTokens = Math.min(
+    requestedOutputTokens,
+    info?.max_output_tokens ?? requestedOutputTokens,
+    Math.floor(contextWindow / 2)
+  );
+
+  return {
+    contextWindow,
+    maxOutputTokens,
+    available: Math.floor(contextWindow * WINDOW_SAFETY_MARGIN) - maxOutputTokens,
+  };
+}
+
+function truncateContext(context: string, tokens: number): string | undefined {
+  const keepChars = Math.max(tokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length, 0);
+  return keepChars > 0 ? context.slice(0, keepChars) + TRUNCATION_MARKER : undefined;
+}
+
+function shortenAnswers(answers: string[], maxChars: number): string[] {
+  return answers.map(answer =>
+    answer.length > maxChars
+      ? answer.slice(0, Math.max(maxChars - PEER_TRUNCATION_MARKER.length, 0)) + PEER_TRUNCATION_MARKER
+      : answer
+  );
+}
+
+/**
+ * Context window assumed for models that neither the router nor the
+ * catalog knows (unset = such prompts are sent unfitted)
+ */
+function getDefaultContextWindow(): number | null {
+  const window = parseInt(process.env.DEFAULT_CONTEXT_WINDOW || '', 10);
+  return Number.isNaN(window) || window <= 0 ? null : window;
+}
+
+/**
+ * Check if prompt fitting is enabled via environment variable
+ */
+export function isPromptFittingEnabled(): boolean {
+  return process.env.ENABLE_PROMPT_FITTING !== 'false';
+}
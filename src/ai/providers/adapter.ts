@@ -0,0 +1,136 @@
+/**
+ * Provider Adapter
+ *
+ * Common shape of the direct provider adapters (OpenAI, Anthropic, Gemini).
+ * An adapter only translates between the agent's OpenAI-style request
+ * format and one provider SDK; caching, circuit breakers and retries are
+ * applied by the DirectProviderClient around it.
+ */
+
+import type {
+  ChatCompletionChoice,
+  ChatCompletionRequest,
+  EmbeddingData,
+  EmbeddingRequest,
+  ModelInfo,
+  ToolCall,
+  UsageInfo,
+} from '../model-router.js';
+import {
+  ModelRouterError,
+  RateLimitError,
+  BudgetExceededError,
+  AuthenticationError,
+} from '../model-router.js';
+import { parseRetryAfter } from '../retry-policy.js';
+import { withCatalogDefaults } from '../model-catalog.js';
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini';
+
+/**
+ * A completed (non-streaming) provider call
+ */
+export interface ProviderCompletion {
+  id: string;
+  model: string;
+  content: string;
+  finish_reason: ChatCompletionChoice['finish_reason'];
+  tool_calls?: ToolCall[];
+  usage: UsageInfo;
+}
+
+/**
+ * Events of a provider stream
+ * - delta: newly generated text
+ * - end: the provider finished the answer (always the last event)
+ */
+export type ProviderStreamEvent =
+  | { type: 'delta'; content: string }
+  | {
+      type: 'end';
+      id?: string;
+      finish_reason: ChatCompletionChoice['finish_reason'];
+      tool_calls?: ToolCall[];
+      usage?: UsageInfo;
+    };
+
+export interface ProviderEmbeddings {
+  data: EmbeddingData[];
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface ProviderAdapter {
+  readonly provider: ProviderName;
+
+  complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ProviderCompletion>;
+
+  /**
+   * Open a stream; resolves once the provider has accepted the request,
+   * so failures to open can be retried
+   */
+  stream(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<ProviderStreamEvent>>;
+
+  embeddings(request: EmbeddingRequest, signal?: AbortSignal): Promise<ProviderEmbeddings>;
+
+  listModels(): Promise<ModelInfo[]>;
+}
+
+/**
+ * Connection settings for one provider
+ */
+export interface ProviderCredentials {
+  apiKey: string;
+  /** Override the API endpoint (e.g. a local OpenAI-compatible server) */
+  baseUrl?: string;
+}
+
+/**
+ * Parse the JSON arguments of a tool call for providers that take objects
+ * (malformed arguments become an empty object)
+ */
+export function parseToolArguments(call: ToolCall): Record<string, unknown> {
+  try {
+    const args = JSON.parse(call.function.arguments || '{}');
+    return args && typeof args === 'object' && !Array.isArray(args) ? args : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Map a provider SDK error onto the shared error classes
+ *
+ * The SDK errors carry the HTTP status (and headers for OpenAI and
+ * Anthropic), which is all the retry policy and circuit breakers need.
+ * Errors without a status (network failures, timeouts) pass through.
+ */
+export function toProviderError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  const status = (error as { status?: unknown }).status;
+  if (typeof status !== 'number') return error;
+
+  switch (status) {
+    case 429: {
+      const headers = (error as { headers?: Record<string, string | null | undefined> }).headers;
+      return new RateLimitError(error.message, parseRetryAfter(headers?.['retry-after'] ?? null));
+    }
+    case 402:
+      return new BudgetExceededError(error.message);
+    case 401:
+      return new AuthenticationError(error.message);
+    default:
+      return new ModelRouterError(error.message, status);
+  }
+}
+
+/**
+ * ModelInfo for a model listed by a provider
+ * Provider model lists carry no pricing or context data - the catalog fills them in
+ */
+export function toModelInfo(id: string, provider: ProviderName, capabilities?: string[]): ModelInfo {
+  return withCatalogDefaults({ id, provider, capabilities });
+}
@@ -0,0 +1,272 @@
+/**
+ * Anthropic Adapter
+ *
+ * Direct access to the Anthropic Messages API. System messages become the
+ * top-level system prompt; Anthropic has no embeddings endpoint.
+ *
+ * Tool calls map onto tool_use content blocks and tool messages onto
+ * tool_result blocks in a user turn. This API version has no "none" tool
+ * choice, so tool_choice "none" leaves the tools out unless the
+ * conversation already contains tool calls (which require them).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ChatCompletionRequest, ChatMessage, EmbeddingRequest, ModelInfo, ToolCall } from '../model-router.js';
+import { ModelRouterError } from '../model-router.js';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderCredentials,
+  ProviderEmbeddings,
+  ProviderStreamEvent,
+  parseToolArguments,
+  toModelInfo,
+  toProviderError,
+} from './adapter.js';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+// max_tokens is required by the Messages API
+const DEFAULT_MAX_TOKENS = 4096;
+
+type FinishReason = ProviderCompletion['finish_reason'];
+
+function toFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    default:
+      return null;
+  }
+}
+
+function toToolCall(block: Anthropic.ToolUseBlock): ToolCall {
+  return {
+    id: block.id,
+    type: 'function',
+    function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+  };
+}
+
+/**
+ * Convert non-system messages to Anthropic turns
+ * Consecutive tool results are sent together in one user turn.
+ */
+function toMessageParams(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  const params: Anthropic.MessageParam[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    if (m.role === 'tool') {
+      const result: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: m.tool_call_id ?? '',
+        content: m.content,
+      };
+      const last = params[params.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(result);
+      } else {
+        params.push({ role: 'user', content: [result] });
+      }
+      continue;
+    }
+
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      params.push({
+        role: 'assistant',
+        content: [
+          ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+          ...m.tool_calls.map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call),
+          })),
+        ],
+      });
+      continue;
+    }
+
+    params.push({ role: m.role, content: m.content });
+  }
+
+  return params;
+}
+
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly provider = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(
+    private credentials: ProviderCredentials,
+    timeoutMs: number
+  ) {
+    this.client = new Anthropic({
+      apiKey: credentials.apiKey,
+      baseURL: credentials.baseUrl,
+      timeout: timeoutMs,
+      maxRetries: 0, // Retries follow the agent's retry policy
+    });
+  }
+
+  async complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ProviderCompletion> {
+    try {
+      const response = await this.client.messages.create(this.toParams(request), { signal });
+
+      const content = response.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      const toolCalls = response.content
+        .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+        .map(toToolCall);
+
+      return {
+        id: response.id,
+        model: response.model,
+        content,
+        finish_reason: toFinishReason(response.stop_reason),
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          prompt_tokens: response.usage.input_tokens,
+          completion_tokens: response.usage.output_tokens,
+          total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+        },
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async stream(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<ProviderStreamEvent>> {
+    let stream;
+    try {
+      stream = await this.client.messages.create({ ...this.toParams(request), stream: true }, { signal });
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    return (async function* (): AsyncGenerator<ProviderStreamEvent> {
+      let id: string | undefined;
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let finishReason: FinishReason = null;
+      // Tool calls by content block index (input JSON arrives in pieces)
+      const toolCalls = new Map<number, ToolCall>();
+
+      try {
+        for await (const event of stream) {
+          switch (event.type) {
+            case 'message_start':
+              id = event.message.id;
+              promptTokens = event.message.usage.input_tokens;
+              break;
+            case 'content_block_start':
+              if (event.content_block.type === 'tool_use') {
+                toolCalls.set(event.index, {
+                  ...toToolCall(event.content_block),
+                  function: { name: event.content_block.name, arguments: '' },
+                });
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta.type === 'text_delta' && event.delta.text) {
+                yield { type: 'delta', content: event.delta.text };
+              } else if (event.delta.type === 'input_json_delta') {
+                const call = toolCalls.get(event.index);
+                if (call) call.function.arguments += event.delta.partial_json;
+              }
+              break;
+            case 'message_delta':
+              finishReason = toFinishReason(event.delta.stop_reason);
+              completionTokens = event.usage.output_tokens; // Cumulative
+              break;
+            case 'message_stop':
+              yield {
+                type: 'end',
+                id,
+                finish_reason: finishReason,
+                tool_calls: toolCalls.size > 0 ? [...toolCalls.values()] : undefined,
+                usage: {
+                  prompt_tokens: promptTokens,
+                  completion_tokens: completionTokens,
+                  total_tokens: promptTokens + completionTokens,
+                },
+              };
+              return;
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    })();
+  }
+
+  async embeddings(request: EmbeddingRequest): Promise<ProviderEmbeddings> {
+    throw new ModelRouterError(`Anthropic does not provide embeddings (requested ${request.model})`, 400);
+  }
+
+  /**
+   * List models via the REST endpoint (not wrapped by this SDK version)
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const baseUrl = (this.credentials.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/v1/models?limit=100`, {
+      headers: {
+        'x-api-key': this.credentials.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+    });
+
+    if (!response.ok) {
+      throw new ModelRouterError(`Anthropic model list failed: HTTP ${response.status}`, response.status);
+    }
+
+    const body = await response.json() as { data: Array<{ id: string }> };
+    return body.data.map(m => toModelInfo(m.id, this.provider));
+  }
+
+  private toParams(request: ChatCompletionRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    return {
+      model: request.model,
+      system: system || undefined,
+      messages: toMessageParams(request.messages),
+      temperature: request.temperature,
+      max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+      ...this.toToolParams(request),
+    };
+  }
+
+  private toToolParams(request: ChatCompletionRequest): Pick<Anthropic.MessageCreateParamsNonStreaming, 'tools' | 'tool_choice'> {
+    if (!request.tools?.length) return {};
+
+    const choice = request.tool_choice;
+    const hasToolHistory = request.messages.some(m => m.role === 'tool' || m.tool_calls?.length);
+    if (choice === 'none' && !hasToolHistory) return {};
+
+    return {
+      tools: request.tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: { type: 'object', ...tool.function.parameters },
+      })),
+      tool_choice:
+        choice === 'required' ? { type: 'any' }
+        : typeof choice === 'object' ? { type: 'tool', name: choice.function.name }
+        : choice === 'auto' ? { type: 'auto' }
+        : undefined,
+    };
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Direct Provider Client
+ *
+ * ChatProvider for self-hosted and offline deployments that have no PAP
+ * Model Router. Calls go straight to the provider SDKs with the agent's own
+ * API keys; the adapter is picked from the model name:
+ *
+ * - gpt-*, o1*, o3*, o4*, chatgpt-*, text-embedding-3-* -> OpenAI
+ * - claude-*                                            -> Anthropic
+ * - gemini-*, text-embedding-004, embedding-*           -> Gemini
+ * - "openai/llama3.1" style names pick the adapter explicitly
+ *   (useful for local OpenAI-compatible servers)
+ *
+ * The response cache, circuit breakers and retry policy apply exactly as
+ * for the Model Router. Cost is computed from the model catalog prices
+ * (0 for models the catalog does not price).
+ *
+ * ENVIRONMENT VARIABLES:
+ * - OPENAI_API_KEY / OPENAI_BASE_URL: OpenAI or an OpenAI-compatible server
+ * - ANTHROPIC_API_KEY / ANTHROPIC_BASE_URL
+ * - GOOGLE_API_KEY (or GEMINI_API_KEY) / GEMINI_BASE_URL
+ * - DIRECT_DEFAULT_PROVIDER: Adapter for model names without a known prefix
+ */
+
+import {
+  ChatProvider,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatOptions,
+  ChatStreamEvent,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  ModelInfo,
+  ModelRouterError,
+  PAPMetadata,
+  UsageInfo,
+  callWithRetries,
+  getCachedResponse,
+  storeCachedResponse,
+  setChatProvider,
+} from '../model-router.js';
+import { ModelRetryPolicies, RetryPolicyConfig, DEFAULT_RETRY_POLICY } from '../retry-policy.js';
+import { getCatalogModel } from '../model-catalog.js';
+import type { CallSlot } from '../scheduler.js';
+import {
+  ProviderAdapter,
+  ProviderCredentials,
+  ProviderName,
+  ProviderStreamEvent,
+} from './adapter.js';
+import { OpenAIAdapter } from './openai.js';
+import { AnthropicAdapter } from './anthropic.js';
+import { GeminiAdapter } from './gemini.js';
+
+// Checked in order - the first matching prefix wins
+const MODEL_PREFIXES: Array<[string, ProviderName]> = [
+  ['gpt-', 'openai'],
+  ['o1', 'openai'],
+  ['o3', 'openai'],
+  ['o4', 'openai'],
+  ['chatgpt-', 'openai'],
+  ['text-embedding-004', 'gemini'],
+  ['text-embedding-', 'openai'],
+  ['claude-', 'anthropic'],
+  ['gemini-', 'gemini'],
+  ['embedding-', 'gemini'],
+];
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'anthropic', 'gemini'];
+
+export interface DirectProviderConfig {
+  openai?: ProviderCredentials;
+  anthropic?: ProviderCredentials;
+  gemini?: ProviderCredentials;
+
+  /** Adapter for model names without a known prefix */
+  defaultProvider?: ProviderName;
+
+  /** Request timeout in milliseconds (default: 60000) */
+  timeout?: number;
+
+  /** Per-model retry policy overrides (from MODEL_RETRY_POLICIES env var) */
+  retryPolicies?: Record<string, Partial<RetryPolicyConfig>>;
+}
+
+export class DirectProviderClient implements ChatProvider {
+  private adapters = new Map<ProviderName, ProviderAdapter>();
+  private defaultProvider?: ProviderName;
+  private retryPolicies: ModelRetryPolicies;
+
+  constructor(config: DirectProviderConfig) {
+    const timeout = config.timeout ?? 60000;
+
+    if (config.openai) this.adapters.set('openai', new OpenAIAdapter(config.openai, timeout));
+    if (config.anthropic) this.adapters.set('anthropic', new AnthropicAdapter(config.anthropic, timeout));
+    if (config.gemini) this.adapters.set('gemini', new GeminiAdapter(config.gemini, timeout));
+
+    if (this.adapters.size === 0) {
+      throw new Error('At least one provider (OPENAI_API_KEY, OPENAI_BASE_URL, ANTHROPIC_API_KEY or GOOGLE_API_KEY) is required');
+    }
+
+    this.defaultProvider = config.defaultProvider;
+    this.retryPolicies = new ModelRetryPolicies(DEFAULT_RETRY_POLICY, config.retryPolicies);
+  }
+
+  /**
+   * Providers with credentials configured
+   */
+  getProviders(): ProviderName[] {
+    return [...this.adapters.keys()];
+  }
+
+  async chat(
+    request: ChatCompletionRequest,
+    options: ChatOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const startTime = Date.now();
+
+    // Serve identical requests from the response cache (opt-in per call)
+    const cached = await getCachedResponse(request, options, startTime);
+    if (cached) {
+      return cached;
+    }
+
+    const { adapter, model } = this.resolve(request.model);
+
+    const { value: completion, queueMs } = await callWithRetries(
+      request.model,
+      this.retryPolicies.get(request.model),
+      options,
+      'DirectProvider',
+      () => adapter.complete({ ...request, model }, options.signal)
+    );
+
+    const response: ChatCompletionResponse = {
+      id: completion.id,
+      model: completion.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: completion.content, tool_calls: completion.tool_calls },
+        finish_reason: completion.finish_reason,
+      }],
+      usage: completion.usage,
+      pap_metadata: {
+        ...this.buildMetadata(adapter, request.model, completion.usage, startTime),
+        queue_ms: queueMs,
+      },
+    };
+
+    storeCachedResponse(request, response, options);
+    return response;
+  }
+
+  /**
+   * Stream a chat completion from the provider
+   * Opening the stream is retried like chat(); later errors are thrown to the caller
+   */
+  async *chatStream(
+    request: ChatCompletionRequest,
+    options: ChatOptions = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    const startTime = Date.now();
+    const { adapter, model } = this.resolve(request.model);
+
+    // Scheduler slot of the opened stream - held until the stream ends
+    let slot: CallSlot | undefined;
+    let queueMs = 0;
+    let content = '';
+    let end: Extract<ProviderStreamEvent, { type: 'end' }> | undefined;
+
+    try {
+      const retried = await callWithRetries(
+        request.model,
+        this.retryPolicies.get(request.model),
+        options,
+        'DirectProvider',
+        () => adapter.stream({ ...request, model }, options.signal),
+        true
+      );
+      const stream = retried.value;
+      slot = retried.slot;
+      queueMs = retried.queueMs;
+
+      for await (const event of stream) {
+        if (event.type === 'delta') {
+          content += event.content;
+          yield event;
+        } else {
+          end = event;
+        }
+      }
+    } finally {
+      slot?.release();
+    }
+
+    if (!end) {
+      throw new ModelRouterError('Chat stream ended before completion', 502);
+    }
+
+    yield {
+      type: 'done',
+      id: end.id ?? '',
+      model: request.model,
+      content,
+      finish_reason: end.finish_reason,
+      tool_calls: end.tool_calls,
+      usage: end.usage,
+      pap_metadata: {
+        ...this.buildMetadata(adapter, request.model, end.usage, startTime),
+        queue_ms: queueMs,
+      },
+    };
+  }
+
+  async embeddings(request: EmbeddingRequest, options: ChatOptions = {}): Promise<EmbeddingResponse> {
+    const startTime = Date.now();
+    const { adapter, model } = this.resolve(request.model);
+
+    const { data, usage } = await adapter.embeddings({ ...request, model }, options.signal);
+
+    return {
+      model: request.model,
+      // Providers may return items out of order - restore input order
+      data: [...data].sort((a, b) => a.index - b.index),
+      usage,
+      pap_metadata: this.buildMetadata(
+        adapter,
+        request.model,
+        { ...usage, completion_tokens: 0 },
+        startTime
+      ),
+    };
+  }
+
+  /**
+   * Models of every configured provider (providers that fail to list are skipped)
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const lists = await Promise.all(
+      [...this.adapters.values()].map(async adapter => {
+        try {
+          return await adapter.listModels();
+        } catch (error) {
+          console.warn(
+            `[DirectProvider] Could not list ${adapter.provider} models:`,
+            error instanceof Error ? error.message : error
+          );
+          return [];
+        }
+      })
+    );
+
+    return lists.flat();
+  }
+
+  async isModelAvailable(modelId: string): Promise<boolean> {
+    try {
+      const models = await this.listModels();
+      return models.some(m => m.id === modelId);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Pick the adapter for a model (and strip an explicit "provider/" prefix)
+   */
+  private resolve(model: string): { adapter: ProviderAdapter; model: string } {
+    const slash = model.indexOf('/');
+    if (slash > 0) {
+      const explicit = model.slice(0, slash) as ProviderName;
+      if (PROVIDER_NAMES.includes(explicit)) {
+        return { adapter: this.requireAdapter(explicit, model), model: model.slice(slash + 1) };
+      }
+    }
+
+    const provider = MODEL_PREFIXES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? this.defaultProvider;
+    if (!provider) {
+      throw new ModelRouterError(`No direct provider matches model ${model}`, 400);
+    }
+
+    return { adapter: this.requireAdapter(provider, model), model };
+  }
+
+  private requireAdapter(provider: ProviderName, model: string): ProviderAdapter {
+    const adapter = this.adapters.get(provider);
+    if (!adapter) {
+      throw new ModelRouterError(`Provider ${provider} is not configured (needed for ${model})`, 400);
+    }
+    return adapter;
+  }
+
+  private buildMetadata(
+    adapter: ProviderAdapter,
+    model: string,
+    usage: UsageInfo | undefined,
+    startTime: number
+  ): PAPMetadata {
+    const pricing = getCatalogModel(model)?.pricing;
+    const cost = pricing && usage
+      ? (usage.prompt_tokens / 1000) * pricing.input_per_1k +
+        (usage.completion_tokens / 1000) * pricing.output_per_1k
+      : 0;
+
+    return {
+      cost_usd: Math.round(cost * 1e6) / 1e6,
+      latency_ms: Date.now() - startTime,
+      provider: adapter.provider,
+      cached: false,
+    };
+  }
+}
+
+/**
+ * Read direct provider credentials from env
+ *
+ * @returns The configuration, or null when no provider is configured
+ */
+export function getDirectProviderConfig(): DirectProviderConfig | null {
+  const config: DirectProviderConfig = {};
+
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) {
+    config.openai = {
+      apiKey: process.env.OPENAI_API_KEY || '',
+      baseUrl: process.env.OPENAI_BASE_URL || undefined,
+    };
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    config.anthropic = {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseUrl: process.env.ANTHROPIC_BASE_URL || undefined,
+    };
+  }
+  const googleApiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+  if (googleApiKey) {
+    config.gemini = {
+      apiKey: googleApiKey,
+      baseUrl: process.env.GEMINI_BASE_URL || undefined,
+    };
+  }
+
+  if (!config.openai && !config.anthropic && !config.gemini) {
+    return null;
+  }
+
+  const defaultProvider = process.env.DIRECT_DEFAULT_PROVIDER as ProviderName | undefined;
+  if (defaultProvider && PROVIDER_NAMES.includes(defaultProvider)) {
+    config.defaultProvider = defaultProvider;
+  }
+
+  return config;
+}
+
+/**
+ * Install the direct provider client as the agent's ChatProvider
+ * (used in place of initializeModelRouter() when no router is configured)
+ */
+export function initializeDirectProviders(config: DirectProviderConfig): DirectProviderClient {
+  const client = new DirectProviderClient(config);
+  setChatProvider(client);
+  return client;
+}
@@ -0,0 +1,302 @@
+/**
+ * Gemini Adapter
+ *
+ * Direct access to the Google Generative Language API. System messages
+ * become the system instruction and assistant turns use the "model" role.
+ *
+ * Tools become function declarations. Gemini function calls carry no id,
+ * so ids are generated per response and tool results are matched back to
+ * their function by the id of the earlier call.
+ */
+
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  EnhancedGenerateContentResponse,
+  Content,
+  FunctionCallingMode,
+  FunctionDeclarationSchema,
+  Part,
+  ToolConfig,
+} from '@google/generative-ai';
+import type { ChatCompletionRequest, EmbeddingRequest, ModelInfo, ToolCall, UsageInfo } from '../model-router.js';
+import { ModelRouterError } from '../model-router.js';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderCredentials,
+  ProviderEmbeddings,
+  ProviderStreamEvent,
+  parseToolArguments,
+  toModelInfo,
+  toProviderError,
+} from './adapter.js';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+type FinishReason = ProviderCompletion['finish_reason'];
+
+function toFinishReason(reason: string | undefined): FinishReason {
+  switch (reason) {
+    case undefined:
+    case 'FINISH_REASON_UNSPECIFIED':
+      return null;
+    case 'STOP':
+      return 'stop';
+    case 'MAX_TOKENS':
+      return 'length';
+    default:
+      // SAFETY, RECITATION, BLOCKLIST, PROHIBITED_CONTENT, ...
+      return 'content_filter';
+  }
+}
+
+function toUsage(response: EnhancedGenerateContentResponse): UsageInfo {
+  const metadata = response.usageMetadata;
+  return {
+    prompt_tokens: metadata?.promptTokenCount ?? 0,
+    completion_tokens: metadata?.candidatesTokenCount ?? 0,
+    total_tokens: metadata?.totalTokenCount ?? 0,
+  };
+}
+
+/**
+ * Text of the first candidate (response.text() throws on blocked answers)
+ */
+function toText(response: EnhancedGenerateContentResponse): string {
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .map(part => part.text ?? '')
+    .join('');
+}
+
+/**
+ * Function calls of the first candidate as OpenAI-style tool calls
+ *
+ * @param offset - Calls already seen (keeps generated ids unique across stream chunks)
+ */
+function toToolCalls(response: EnhancedGenerateContentResponse, offset = 0): ToolCall[] {
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => part.functionCall)
+    .map((part, index) => ({
+      id: `call_${offset + index}_${part.functionCall!.name}`,
+      type: 'function',
+      function: {
+        name: part.functionCall!.name,
+        arguments: JSON.stringify(part.functionCall!.args ?? {}),
+      },
+    }));
+}
+
+function toToolConfig(choice: ChatCompletionRequest['tool_choice']): ToolConfig | undefined {
+  switch (choice) {
+    case undefined:
+      return undefined;
+    case 'none':
+      return { functionCallingConfig: { mode: FunctionCallingMode.NONE } };
+    case 'auto':
+      return { functionCallingConfig: { mode: FunctionCallingMode.AUTO } };
+    case 'required':
+      return { functionCallingConfig: { mode: FunctionCallingMode.ANY } };
+    default:
+      return {
+        functionCallingConfig: { mode: FunctionCallingMode.ANY, allowedFunctionNames: [choice.function.name] },
+      };
+  }
+}
+
+export class GeminiAdapter implements ProviderAdapter {
+  readonly provider = 'gemini' as const;
+  private client: GoogleGenerativeAI;
+
+  constructor(
+    private credentials: ProviderCredentials,
+    private timeoutMs: number
+  ) {
+    this.client = new GoogleGenerativeAI(credentials.apiKey);
+  }
+
+  async complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ProviderCompletion> {
+    try {
+      const { response } = await this.getModel(request).generateContent(
+        { contents: this.toContents(request) },
+        { signal }
+      );
+      const toolCalls = toToolCalls(response);
+
+      return {
+        id: '', // The API does not return response ids
+        model: request.model,
+        content: toText(response),
+        // Gemini reports STOP for function calls
+        finish_reason: toolCalls.length > 0 ? 'tool_calls' : toFinishReason(response.candidates?.[0]?.finishReason),
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: toUsage(response),
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async stream(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<ProviderStreamEvent>> {
+    let result;
+    try {
+      result = await this.getModel(request).generateContentStream(
+        { contents: this.toContents(request) },
+        { signal }
+      );
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    return (async function* (): AsyncGenerator<ProviderStreamEvent> {
+      let finishReason: FinishReason = null;
+      let usage: UsageInfo | undefined;
+      const toolCalls: ToolCall[] = [];
+
+      try {
+        for await (const chunk of result.stream) {
+          const text = toText(chunk);
+          if (text) {
+            yield { type: 'delta', content: text };
+          }
+          // Function calls arrive complete, never split across chunks
+          toolCalls.push(...toToolCalls(chunk, toolCalls.length));
+
+          const reason = chunk.candidates?.[0]?.finishReason;
+          if (reason) finishReason = toFinishReason(reason);
+          if (chunk.usageMetadata) usage = toUsage(chunk);
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+
+      yield toolCalls.length > 0
+        ? { type: 'end', finish_reason: 'tool_calls', tool_calls: toolCalls, usage }
+        : { type: 'end', finish_reason: finishReason, usage };
+    })();
+  }
+
+  async embeddings(request: EmbeddingRequest, signal?: AbortSignal): Promise<ProviderEmbeddings> {
+    try {
+      const model = this.client.getGenerativeModel(
+        { model: request.model },
+        { timeout: this.timeoutMs, baseUrl: this.credentials.baseUrl }
+      );
+
+      const response = await model.batchEmbedContents(
+        {
+          requests: request.input.map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+          })),
+        },
+        { signal }
+      );
+
+      return {
+        data: response.embeddings.map((e, index) => ({ index, embedding: e.values })),
+        // The embeddings API does not report token usage
+        usage: { prompt_tokens: 0, total_tokens: 0 },
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  /**
+   * List models via the REST endpoint (not wrapped by this SDK version)
+   */
+  async listModels(): Promise<ModelInfo[]> {
+    const baseUrl = (this.credentials.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/v1beta/models?pageSize=100`, {
+      headers: { 'x-goog-api-key': this.credentials.apiKey },
+    });
+
+    if (!response.ok) {
+      throw new ModelRouterError(`Gemini model list failed: HTTP ${response.status}`, response.status);
+    }
+
+    const body = await response.json() as {
+      models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
+    };
+
+    return (body.models ?? []).map(m => {
+      const methods = m.supportedGenerationMethods ?? [];
+      const capabilities = [
+        ...(methods.includes('generateContent') ? ['chat'] : []),
+        ...(methods.includes('embedContent') ? ['embeddings'] : []),
+      ];
+      // Names come back as "models/gemini-1.5-flash"
+      return toModelInfo(m.name.replace(/^models\//, ''), this.provider, capabilities);
+    });
+  }
+
+  private getModel(request: ChatCompletionRequest): GenerativeModel {
+    const system = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+
+    return this.client.getGenerativeModel(
+      {
+        model: request.model,
+        systemInstruction: system || undefined,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.max_tokens,
+        },
+        tools: request.tools?.length
+          ? [{
+              functionDeclarations: request.tools.map(tool => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                // Gemini accepts the OpenAPI subset of JSON Schema the built-in tools use
+                parameters: tool.function.parameters as unknown as FunctionDeclarationSchema,
+              })),
+            }]
+          : undefined,
+        toolConfig: request.tools?.length ? toToolConfig(request.tool_choice) : undefined,
+      },
+      { timeout: this.timeoutMs, baseUrl: this.credentials.baseUrl }
+    );
+  }
+
+  private toContents(request: ChatCompletionRequest): Content[] {
+    // Function name of each earlier call, for matching tool results
+    const callNames = new Map<string, string>();
+    const contents: Content[] = [];
+
+    for (const m of request.messages) {
+      if (m.role === 'system') continue;
+
+      if (m.role === 'tool') {
+        const part: Part = {
+          functionResponse: {
+            name: callNames.get(m.tool_call_id ?? '') ?? 'unknown',
+            response: { content: m.content },
+          },
+        };
+        // Consecutive results answer one model turn - send them together
+        const last = contents[contents.length - 1];
+        if (last?.role === 'function') {
+          last.parts.push(part);
+        } else {
+          contents.push({ role: 'function', parts: [part] });
+        }
+        continue;
+      }
+
+      const parts: Part[] = m.content ? [{ text: m.content }] : [];
+      for (const call of m.tool_calls ?? []) {
+        callNames.set(call.id, call.function.name);
+        parts.push({ functionCall: { name: call.function.name, args: parseToolArguments(call) } });
+      }
+
+      contents.push({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: parts.length > 0 ? parts : [{ text: '' }],
+      });
+    }
+
+    return contents;
+  }
+}
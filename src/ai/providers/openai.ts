@@ -0,0 +1,191 @@
+/**
+ * OpenAI Adapter
+ *
+ * Direct access to the OpenAI API. With OPENAI_BASE_URL it also talks to
+ * OpenAI-compatible local servers (vLLM, Ollama, LM Studio), which is how
+ * offline deployments run a jury without any hosted provider.
+ */
+
+import OpenAI from 'openai';
+import type { ChatCompletionRequest, ChatMessage, EmbeddingRequest, ModelInfo, ToolCall } from '../model-router.js';
+import { mergeToolCallDeltas } from '../model-router.js';
+import {
+  ProviderAdapter,
+  ProviderCompletion,
+  ProviderCredentials,
+  ProviderEmbeddings,
+  ProviderStreamEvent,
+  toModelInfo,
+  toProviderError,
+} from './adapter.js';
+
+type FinishReason = ProviderCompletion['finish_reason'];
+
+function toFinishReason(reason: string | null | undefined): FinishReason {
+  switch (reason) {
+    case 'stop':
+    case 'length':
+    case 'content_filter':
+    case 'tool_calls':
+      return reason;
+    case 'function_call':
+      return 'tool_calls';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert messages to the SDK's per-role message types
+ */
+function toMessages(messages: ChatMessage[]): OpenAI.ChatCompletionMessageParam[] {
+  return messages.map(m => {
+    switch (m.role) {
+      case 'tool':
+        return { role: 'tool', content: m.content, tool_call_id: m.tool_call_id ?? '' };
+      case 'assistant':
+        return { role: 'assistant', content: m.content || null, tool_calls: m.tool_calls };
+      default:
+        return { role: m.role, content: m.content };
+    }
+  });
+}
+
+export class OpenAIAdapter implements ProviderAdapter {
+  readonly provider = 'openai' as const;
+  private client: OpenAI;
+
+  constructor(credentials: ProviderCredentials, timeoutMs: number) {
+    this.client = new OpenAI({
+      // Local OpenAI-compatible servers usually ignore the key
+      apiKey: credentials.apiKey || 'not-needed',
+      baseURL: credentials.baseUrl,
+      timeout: timeoutMs,
+      maxRetries: 0, // Retries follow the agent's retry policy
+    });
+  }
+
+  async complete(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ProviderCompletion> {
+    try {
+      const response = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toMessages(request.messages),
+          temperature: request.temperature,
+          max_tokens: request.max_tokens,
+          tools: request.tools,
+          tool_choice: request.tool_choice,
+        },
+        { signal }
+      );
+
+      const choice = response.choices[0];
+      const promptTokens = response.usage?.prompt_tokens ?? 0;
+      const completionTokens = response.usage?.completion_tokens ?? 0;
+
+      return {
+        id: response.id,
+        model: response.model,
+        content: choice?.message.content ?? '',
+        finish_reason: toFinishReason(choice?.finish_reason),
+        tool_calls: choice?.message.tool_calls?.length ? choice.message.tool_calls : undefined,
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: response.usage?.total_tokens ?? promptTokens + completionTokens,
+        },
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async stream(request: ChatCompletionRequest, signal?: AbortSignal): Promise<AsyncIterable<ProviderStreamEvent>> {
+    let stream;
+    try {
+      stream = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toMessages(request.messages),
+          temperature: request.temperature,
+          max_tokens: request.max_tokens,
+          tools: request.tools,
+          tool_choice: request.tool_choice,
+          stream: true,
+          stream_options: { include_usage: true }, // Final chunk carries token usage
+        },
+        { signal }
+      );
+    } catch (error) {
+      throw toProviderError(error);
+    }
+
+    return (async function* (): AsyncGenerator<ProviderStreamEvent> {
+      let id: string | undefined;
+      let finishReason: FinishReason = null;
+      const toolCalls: ToolCall[] = [];
+
+      try {
+        for await (const chunk of stream) {
+          id = chunk.id || id;
+
+          const choice = chunk.choices[0];
+          if (choice?.finish_reason) finishReason = toFinishReason(choice.finish_reason);
+          if (choice?.delta?.tool_calls) mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+          if (choice?.delta?.content) {
+            yield { type: 'delta', content: choice.delta.content };
+          }
+
+          if (chunk.usage) {
+            yield {
+              type: 'end',
+              id,
+              finish_reason: finishReason,
+              tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+              usage: chunk.usage,
+            };
+            return;
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+
+      // Servers that ignore stream_options end without a usage chunk
+      if (finishReason) {
+        yield { type: 'end', id, finish_reason: finishReason, tool_calls: toolCalls.length > 0 ? toolCalls : undefined };
+      }
+    })();
+  }
+
+  async embeddings(request: EmbeddingRequest, signal?: AbortSignal): Promise<ProviderEmbeddings> {
+    try {
+      const response = await this.client.embeddings.create(
+        {
+          model: request.model,
+          input: request.input,
+        },
+        { signal }
+      );
+
+      return {
+        data: response.data.map(d => ({ index: d.index, embedding: d.embedding })),
+        usage: response.usage,
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const models: ModelInfo[] = [];
+      for await (const model of this.client.models.list()) {
+        models.push(toModelInfo(model.id, this.provider));
+      }
+      return models;
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+}
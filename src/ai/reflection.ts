@@ -7,7 +7,8 @@
  */
 
 import { getModelRouter } from './model-router.js';
-import type { ModelResponse } from './consensus.js';
+import { toCallUsage, CallUsage } from './usage.js';
+import type { ModelResponse, VerdictType } from './consensus.js';
 
 export interface ReflectionResult {
   originalAnswer: string;
@@ -15,6 +16,8 @@ export interface ReflectionResult {
   refinedAnswer: string;
   qualityScore: number; // 0-100
   issues: string[];
+  // Tokens and cost of the critic call
+  usage?: CallUsage;
 }
 
 // Critic prompt template
@@ -54,7 +57,8 @@ Guidelines for scoring:
 export async function reflectOnConsensus(
   question: string,
   consensusAnswer: string,
-  modelResponses: ModelResponse[]
+  modelResponses: ModelResponse[],
+  signal?: AbortSignal
 ): Promise<ReflectionResult> {
   const router = getModelRouter();
 
@@ -81,8 +85,10 @@ export async function reflectOnConsensus(
     .replace('{question}', question)
     .replace('{responses}', responsesFormatted);
 
-  // Get the reflection model from env or use default
-  const reflectionModel = process.env.REFLECTION_MODEL || 'claude-3-5-sonnet-20241022';
+  const reflectionModel = getReflectionModel();
+
+  // Kept outside the try so a failed parse still reports what the call cost
+  let usage: CallUsage | undefined;
 
   try {
     const response = await router.chat({
@@ -93,7 +99,8 @@ export async function reflectOnConsensus(
       ],
       temperature: 0.2, // Low temperature for consistent evaluation
       max_tokens: 2048,
-    });
+    }, { signal });
+    usage = toCallUsage(response);
 
     const content = response.choices[0]?.message?.content || '';
 
@@ -113,6 +120,7 @@ export async function reflectOnConsensus(
       refinedAnswer: critique.refinedAnswer || consensusAnswer,
       qualityScore: typeof critique.qualityScore === 'number' ? critique.qualityScore : 50,
       issues: Array.isArray(critique.issues) ? critique.issues : [],
+      usage,
     };
   } catch (error) {
     console.error('[Reflection] Failed to reflect on consensus:', error);
@@ -124,6 +132,7 @@ export async function reflectOnConsensus(
       refinedAnswer: consensusAnswer,
       qualityScore: 0,
       issues: ['Reflection process failed'],
+      usage,
     };
   }
 }
@@ -132,7 +141,7 @@ export async function reflectOnConsensus(
  * Determine if reflection should be applied based on verdict
  */
 export function shouldApplyReflection(
-  verdict: 'unanimous' | 'split' | 'no_consensus',
+  verdict: VerdictType,
   consensusAnswer?: string
 ): boolean {
   // Don't reflect if there's no consensus answer
@@ -141,10 +150,17 @@ export function shouldApplyReflection(
   // Don't reflect on no_consensus (nothing to improve)
   if (verdict === 'no_consensus') return false;
 
-  // Reflect on unanimous and split verdicts
+  // Reflect on unanimous, split and plurality verdicts
   return true;
 }
 
+/**
+ * Get the critic model from env
+ */
+export function getReflectionModel(): string {
+  return process.env.REFLECTION_MODEL || 'claude-3-5-sonnet-20241022';
+}
+
 /**
  * Check if reflection is enabled via environment variable
  */
@@ -0,0 +1,236 @@
+/**
+ * Response Cache
+ *
+ * Content-addressed cache for juror calls. Identical requests (same model,
+ * messages, temperature and max_tokens) are answered from the cache
+ * instead of a new router call. Keys are a SHA-256 hash of the normalized
+ * request.
+ *
+ * Backends:
+ * - MEMORY: In-process LRU map (lost on restart)
+ * - FILE: One JSON file per entry in RESPONSE_CACHE_DIR (survives restarts)
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatCompletionRequest, ChatCompletionResponse } from './model-router.js';
+import { getMetrics } from '../pap/metrics.js';
+
+export interface CacheEntry {
+  response: ChatCompletionResponse;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory backend - evicts the least recently used entry beyond maxEntries
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+// Share of maxEntries the file backend keeps when it evicts, so a full
+// cache is not rescanned on every write
+const FILE_EVICTION_TARGET = 0.9;
+
+/**
+ * File backend - evicts the oldest files beyond maxEntries
+ *
+ * Keys on disk are tracked in memory (listed once on first write), so the
+ * directory is only scanned when the cache outgrows maxEntries.
+ */
+export class FileCacheBackend implements CacheBackend {
+  private keys: Set<string> | undefined;
+
+  constructor(
+    private directory: string,
+    private maxEntries: number
+  ) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf-8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const keys = this.keys ?? (this.keys = new Set(await this.listKeys()));
+    await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+    keys.add(key);
+
+    if (keys.size > this.maxEntries) {
+      await this.evictOldest();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+    this.keys?.delete(key);
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  private async listKeys(): Promise<string[]> {
+    const files = await fs.readdir(this.directory);
+    return files.filter(f => f.endsWith('.json')).map(f => f.slice(0, -'.json'.length));
+  }
+
+  private async evictOldest(): Promise<void> {
+    // Rescan - other processes may share the directory
+    const keys = await this.listKeys();
+    this.keys = new Set(keys);
+    if (keys.length <= this.maxEntries) return;
+
+    const stats = await Promise.all(
+      keys.map(async key => ({
+        key,
+        mtimeMs: (await fs.stat(this.filePath(key)).catch(() => undefined))?.mtimeMs ?? 0,
+      }))
+    );
+
+    stats.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    const target = Math.floor(this.maxEntries * FILE_EVICTION_TARGET);
+    for (const { key } of stats.slice(0, keys.length - target)) {
+      await this.delete(key);
+    }
+  }
+}
+
+export class ResponseCache {
+  constructor(
+    private backend: CacheBackend,
+    private ttlMs: number
+  ) {}
+
+  /**
+   * Hash of the normalized request (whitespace-insensitive at the edges)
+   */
+  getKey(request: ChatCompletionRequest): string {
+    const normalized = {
+      model: request.model,
+      messages: request.messages.map(m => ({
+        role: m.role,
+        content: m.content.replace(/\r\n/g, '\n').trim(),
+        // Unset tool fields are left out of the JSON, so plain chat keys are unchanged
+        tool_calls: m.tool_calls,
+        tool_call_id: m.tool_call_id,
+      })),
+      temperature: request.temperature ?? null,
+      max_tokens: request.max_tokens ?? null,
+      tools: request.tools,
+      tool_choice: request.tool_choice,
+    };
+
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  /**
+   * Look up a cached response (expired entries count as misses)
+   */
+  async get(request: ChatCompletionRequest): Promise<ChatCompletionResponse | undefined> {
+    const key = this.getKey(request);
+    let entry: CacheEntry | undefined;
+
+    try {
+      entry = await this.backend.get(key);
+      if (entry && entry.expiresAt <= Date.now()) {
+        await this.backend.delete(key);
+        entry = undefined;
+      }
+    } catch (error) {
+      console.warn('[ResponseCache] Lookup failed:', error instanceof Error ? error.message : error);
+      entry = undefined;
+    }
+
+    getMetrics()?.recordCacheLookup(entry !== undefined);
+    return entry?.response;
+  }
+
+  /**
+   * Store a response (failures are logged, never thrown)
+   */
+  async set(request: ChatCompletionRequest, response: ChatCompletionResponse): Promise<void> {
+    const now = Date.now();
+
+    try {
+      await this.backend.set(this.getKey(request), {
+        response,
+        storedAt: now,
+        expiresAt: now + this.ttlMs,
+      });
+    } catch (error) {
+      console.warn('[ResponseCache] Store failed:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// Singleton instance (created on first use from env)
+let cacheInstance: ResponseCache | null = null;
+
+/**
+ * Get the response cache, or null when caching is disabled
+ */
+export function getResponseCache(): ResponseCache | null {
+  if (!isResponseCacheEnabled()) return null;
+
+  if (!cacheInstance) {
+    const ttlSeconds = parseInt(process.env.RESPONSE_CACHE_TTL_SECONDS || '3600', 10);
+    const maxEntries = parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '1000', 10);
+
+    const backend = process.env.RESPONSE_CACHE_BACKEND === 'file'
+      ? new FileCacheBackend(process.env.RESPONSE_CACHE_DIR || '.cache/responses', maxEntries)
+      : new MemoryCacheBackend(maxEntries);
+
+    cacheInstance = new ResponseCache(backend, ttlSeconds * 1000);
+    console.log(`[ResponseCache] Using ${process.env.RESPONSE_CACHE_BACKEND === 'file' ? 'file' : 'memory'} backend`);
+  }
+
+  return cacheInstance;
+}
+
+/**
+ * Check if the response cache is enabled via environment variable
+ * Disabled by default - cached answers do not reflect model updates
+ */
+export function isResponseCacheEnabled(): boolean {
+  return process.env.ENABLE_RESPONSE_CACHE === 'true';
+}
@@ -0,0 +1,170 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether and when a failed Model Router call is retried:
+ * - Budget (402), validation (400/422) and auth errors are never retried
+ * - Rate limits wait for the router's Retry-After before retrying
+ * - Everything else backs off exponentially with full jitter
+ * - A per-query retry budget caps the total retries across all jurors,
+ *   so one bad provider cannot multiply the cost of a query
+ */
+
+export interface RetryPolicyConfig {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** First backoff step in ms (doubles per attempt) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff */
+  maxDelayMs: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 30000,
+};
+
+/**
+ * Shared retry allowance for one jury query
+ */
+export class RetryBudget {
+  constructor(private remaining: number) {}
+
+  /**
+   * Take one retry from the budget; false when it is used up
+   */
+  tryConsume(): boolean {
+    if (this.remaining <= 0) return false;
+    this.remaining--;
+    return true;
+  }
+
+  getRemaining(): number {
+    return this.remaining;
+  }
+}
+
+export class RetryPolicy {
+  constructor(public readonly config: RetryPolicyConfig = DEFAULT_RETRY_POLICY) {}
+
+  /**
+   * Classify an error: true when another attempt could succeed
+   */
+  isRetryable(error: unknown): boolean {
+    if (!(error instanceof Error)) return true;
+
+    // Fail-fast errors that a retry cannot fix
+    if (error.name === 'CircuitOpenError') return false;
+
+    const statusCode = (error as { statusCode?: unknown }).statusCode;
+    if (typeof statusCode !== 'number') {
+      return true; // Network errors and timeouts
+    }
+
+    // Client errors (bad request, auth, budget) fail the same way again;
+    // request timeouts and rate limits are transient
+    if (statusCode >= 400 && statusCode < 500) {
+      return statusCode === 408 || statusCode === 429;
+    }
+
+    return true;
+  }
+
+  /**
+   * Delay before the next attempt, or null to stop retrying
+   *
+   * @param attempt Zero-based index of the attempt that just failed
+   */
+  getRetryDelay(error: unknown, attempt: number, budget?: RetryBudget): number | null {
+    if (attempt >= this.config.maxRetries || !this.isRetryable(error)) {
+      return null;
+    }
+
+    let delayMs: number;
+    const retryAfterSeconds = (error as { retryAfterSeconds?: unknown }).retryAfterSeconds;
+
+    if (typeof retryAfterSeconds === 'number' && retryAfterSeconds >= 0) {
+      // The router told us when capacity frees up - waiting less is wasted
+      delayMs = retryAfterSeconds * 1000;
+      if (delayMs > this.config.maxRetryAfterMs) return null;
+    } else {
+      // Full jitter: random delay up to the exponential step
+      const ceiling = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt);
+      delayMs = Math.round(Math.random() * ceiling);
+    }
+
+    if (budget && !budget.tryConsume()) {
+      console.warn('[RetryPolicy] Query retry budget exhausted');
+      return null;
+    }
+
+    return delayMs;
+  }
+}
+
+/**
+ * Default retry policy plus per-model overrides
+ */
+export class ModelRetryPolicies {
+  private defaultPolicy: RetryPolicy;
+  private modelPolicies = new Map<string, RetryPolicy>();
+
+  constructor(
+    defaults: RetryPolicyConfig = DEFAULT_RETRY_POLICY,
+    overrides: Record<string, Partial<RetryPolicyConfig>> = {}
+  ) {
+    this.defaultPolicy = new RetryPolicy(defaults);
+    for (const [model, override] of Object.entries(overrides)) {
+      this.modelPolicies.set(model, new RetryPolicy({ ...defaults, ...override }));
+    }
+  }
+
+  /**
+   * Get the retry policy for a model (per-model override or the default)
+   */
+  get(model: string): RetryPolicy {
+    return this.modelPolicies.get(model) ?? this.defaultPolicy;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+/**
+ * Get the per-query retry budget from env
+ */
+export function getDefaultRetryBudget(): number {
+  const budget = parseInt(process.env.QUERY_RETRY_BUDGET || '4', 10);
+  return Number.isNaN(budget) ? 4 : Math.max(budget, 0);
+}
+
+/**
+ * Read per-model retry policy overrides from env
+ * MODEL_RETRY_POLICIES format: '{"gpt-4o": {"maxRetries": 3}, "gemini-1.5-flash": {"baseDelayMs": 500}}'
+ */
+export function getModelRetryPolicyOverrides(): Record<string, Partial<RetryPolicyConfig>> {
+  const raw = process.env.MODEL_RETRY_POLICIES;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    console.warn('[RetryPolicy] Ignoring invalid MODEL_RETRY_POLICIES:', error);
+    return {};
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Model Router Token Lifecycle
+ *
+ * Keeps the agent's MODEL_ROUTER_TOKEN (a Station-issued JWT) usable:
+ * - Decodes the token's `exp` claim and warns ahead of expiry
+ * - Picks up a rotated token from a mounted file (MODEL_ROUTER_TOKEN_FILE)
+ *   or from the Station's token rotation endpoint
+ * - On a 401 the router client asks for a fresh token once; if none is
+ *   available the token is treated as revoked and the agent is degraded
+ *
+ * States:
+ * - VALID: Token accepted and not close to expiry
+ * - EXPIRING: Expires within the warning window, rotation is attempted
+ * - EXPIRED: Past `exp`, router calls will fail (degraded)
+ * - REVOKED: Router rejected the token and no replacement was found (degraded)
+ *
+ * While degraded, the token source is re-checked periodically so the agent
+ * recovers as soon as a new token is mounted or issued.
+ *
+ * ENVIRONMENT VARIABLES:
+ * - MODEL_ROUTER_TOKEN_FILE: Mounted secret holding the token (re-read on rotation)
+ * - MODEL_ROUTER_TOKEN_WARN_SECONDS: Warning window before expiry (default: 3600)
+ * - MODEL_ROUTER_TOKEN_CHECK_SECONDS: Expiry / recovery check interval (default: 60)
+ */
+
+import { readFileSync } from 'fs';
+import { readFile } from 'fs/promises';
+
+export type RouterTokenState = 'valid' | 'expiring' | 'expired' | 'revoked';
+
+export type RouterTokenSource = 'env' | 'file' | 'station';
+
+export interface RouterTokenStatus {
+  state: RouterTokenState;
+  source: RouterTokenSource;
+  /** Expiry from the token's `exp` claim (null when the token has none) */
+  expiresAt: string | null;
+  lastRotatedAt: string | null;
+  lastError: string | null;
+}
+
+export interface RouterTokenConfig {
+  /** Token from MODEL_ROUTER_TOKEN (may be empty when a token file is set) */
+  token: string;
+
+  /** Mounted token file (from MODEL_ROUTER_TOKEN_FILE env var) */
+  tokenFile?: string;
+
+  /** Station base URL and agent credentials for token rotation */
+  stationUrl?: string;
+  agentId: string;
+  apiKey?: string;
+
+  /** Warn this long before expiry in seconds (default: 3600) */
+  warnBeforeSeconds?: number;
+
+  /** Expiry / recovery check interval in seconds (default: 60) */
+  checkIntervalSeconds?: number;
+}
+
+type TokenStateChangeHandler = (oldState: RouterTokenState, newState: RouterTokenState, reason?: string) => void;
+
+const DEFAULT_WARN_BEFORE_SECONDS = 3600;
+const DEFAULT_CHECK_INTERVAL_SECONDS = 60;
+
+// Station rotation request timeout
+const ROTATION_TIMEOUT_MS = 10000;
+
+/**
+ * Read the `exp` claim of a JWT without verifying it
+ * (the router verifies; the agent only needs to know when to rotate)
+ *
+ * @returns Expiry time in ms, or null when the token is not a JWT or has no exp
+ */
+export function decodeTokenExpiry(token: string): number | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as { exp?: unknown };
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export class RouterTokenManager {
+  private token: string;
+  private source: RouterTokenSource;
+  private expiresAt: number | null;
+  private state: RouterTokenState = 'valid';
+  private lastRotatedAt: Date | null = null;
+  private lastError: string | null = null;
+  private tokenFile?: string;
+  private stationUrl?: string;
+  private agentId: string;
+  private apiKey?: string;
+  private warnBeforeMs: number;
+  private checkIntervalMs: number;
+  private intervalId: NodeJS.Timeout | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private changeHandlers: TokenStateChangeHandler[] = [];
+
+  constructor(config: RouterTokenConfig) {
+    this.tokenFile = config.tokenFile;
+    this.stationUrl = config.stationUrl?.replace(/\/$/, '');
+    this.agentId = config.agentId;
+    this.apiKey = config.apiKey;
+    this.warnBeforeMs = (config.warnBeforeSeconds ?? DEFAULT_WARN_BEFORE_SECONDS) * 1000;
+    this.checkIntervalMs = (config.checkIntervalSeconds ?? DEFAULT_CHECK_INTERVAL_SECONDS) * 1000;
+
+    this.token = config.token;
+    this.source = 'env';
+    if (!this.token && this.tokenFile) {
+      this.token = readFileSync(this.tokenFile, 'utf-8').trim();
+      this.source = 'file';
+    }
+
+    this.expiresAt = decodeTokenExpiry(this.token);
+    this.state = this.evaluateExpiry();
+    if (this.state !== 'valid') {
+      this.warnState(this.state);
+    }
+  }
+
+  /**
+   * Token to send with the next router request
+   */
+  getToken(): string {
+    return this.token;
+  }
+
+  getState(): RouterTokenState {
+    return this.state;
+  }
+
+  /**
+   * Router calls cannot succeed until a new token is available
+   */
+  isDegraded(): boolean {
+    return this.state === 'expired' || this.state === 'revoked';
+  }
+
+  getStatus(): RouterTokenStatus {
+    return {
+      state: this.state,
+      source: this.source,
+      expiresAt: this.expiresAt ? new Date(this.expiresAt).toISOString() : null,
+      lastRotatedAt: this.lastRotatedAt?.toISOString() ?? null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Register a state change handler
+   */
+  onStateChange(handler: TokenStateChangeHandler): () => void {
+    this.changeHandlers.push(handler);
+    return () => {
+      const index = this.changeHandlers.indexOf(handler);
+      if (index >= 0) {
+        this.changeHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Start the periodic expiry / recovery check
+   */
+  start(): void {
+    if (this.intervalId) return;
+
+    this.intervalId = setInterval(() => {
+      this.check().catch(err => {
+        console.error('[RouterToken] Check failed:', err);
+      });
+    }, this.checkIntervalMs);
+    // Never keep the process alive just for token checks
+    this.intervalId.unref();
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Re-evaluate expiry and try to rotate an expiring, expired or revoked token
+   */
+  async check(): Promise<void> {
+    if (this.state !== 'revoked') {
+      this.setState(this.evaluateExpiry());
+    }
+    if (this.state !== 'valid') {
+      await this.refresh();
+    }
+  }
+
+  /**
+   * The router rejected a token with 401
+   *
+   * @param rejectedToken - The token the failed request was sent with
+   * @returns true if a different token is now available (retry the request once)
+   */
+  async handleUnauthorized(rejectedToken: string): Promise<boolean> {
+    // Another request already rotated the token
+    if (this.token !== rejectedToken) {
+      return true;
+    }
+
+    if (await this.refresh()) {
+      return true;
+    }
+
+    this.setState('revoked', 'Model Router rejected the token and no replacement is available');
+    return false;
+  }
+
+  /**
+   * The router accepted the current token
+   */
+  recordSuccess(): void {
+    if (this.state === 'revoked') {
+      this.setState(this.evaluateExpiry(), 'Model Router accepted the token again');
+    }
+  }
+
+  /**
+   * Look for a new token (mounted file first, then the Station)
+   * Concurrent callers share one rotation attempt.
+   *
+   * @returns true if a different token was adopted
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.rotate().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async rotate(): Promise<boolean> {
+    const errors: string[] = [];
+
+    if (this.tokenFile) {
+      try {
+        const token = (await readFile(this.tokenFile, 'utf-8')).trim();
+        if (token && token !== this.token) {
+          this.adopt(token, 'file');
+          return true;
+        }
+      } catch (error) {
+        errors.push(`file: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.stationUrl && this.apiKey) {
+      try {
+        const token = await this.fetchStationToken();
+        if (token && token !== this.token) {
+          this.adopt(token, 'station');
+          return true;
+        }
+      } catch (error) {
+        errors.push(`station: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    this.lastError = errors.length > 0 ? errors.join('; ') : 'No rotated token available';
+    console.warn(`[RouterToken] Token rotation failed: ${this.lastError}`);
+    return false;
+  }
+
+  /**
+   * Ask the Station to issue a new router token for this agent
+   */
+  private async fetchStationToken(): Promise<string | null> {
+    const response = await fetch(
+      `${this.stationUrl}/api/agents/${this.agentId}/model-router-token`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        signal: AbortSignal.timeout(ROTATION_TIMEOUT_MS),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { token?: unknown };
+    return typeof data.token === 'string' ? data.token.trim() : null;
+  }
+
+  private adopt(token: string, source: RouterTokenSource): void {
+    this.token = token;
+    this.source = source;
+    this.expiresAt = decodeTokenExpiry(token);
+    this.lastRotatedAt = new Date();
+    this.lastError = null;
+
+    const expiry = this.expiresAt ? ` (expires ${new Date(this.expiresAt).toISOString()})` : '';
+    console.log(`[RouterToken] Rotated token from ${source}${expiry}`);
+    this.setState(this.evaluateExpiry(), `Token rotated from ${source}`);
+  }
+
+  private evaluateExpiry(): RouterTokenState {
+    if (this.expiresAt === null) return 'valid';
+
+    const remaining = this.expiresAt - Date.now();
+    if (remaining <= 0) return 'expired';
+    if (remaining <= this.warnBeforeMs) return 'expiring';
+    return 'valid';
+  }
+
+  private setState(state: RouterTokenState, reason?: string): void {
+    if (state === this.state) return;
+
+    const oldState = this.state;
+    this.state = state;
+
+    if (state === 'valid') {
+      console.log(`[RouterToken] Token ${oldState} → valid${reason ? ` (${reason})` : ''}`);
+    } else {
+      this.warnState(state, reason);
+    }
+
+    for (const handler of this.changeHandlers) {
+      try {
+        handler(oldState, state, reason);
+      } catch (err) {
+        console.error('[RouterToken] Handler error:', err);
+      }
+    }
+  }
+
+  private warnState(state: RouterTokenState, reason?: string): void {
+    const expiry = this.expiresAt ? new Date(this.expiresAt).toISOString() : 'unknown';
+    switch (state) {
+      case 'expiring':
+        console.warn(`[RouterToken] MODEL_ROUTER_TOKEN expires at ${expiry} - rotate it from the Station`);
+        break;
+      case 'expired':
+        console.error(`[RouterToken] MODEL_ROUTER_TOKEN expired at ${expiry} - agent degraded`);
+        break;
+      case 'revoked':
+        console.error(`[RouterToken] MODEL_ROUTER_TOKEN revoked - agent degraded${reason ? ` (${reason})` : ''}`);
+        break;
+    }
+  }
+}
+
+// Singleton instance
+let routerTokenInstance: RouterTokenManager | null = null;
+
+/**
+ * Initialize the router token manager (called by initializeModelRouter())
+ */
+export function initializeRouterToken(config: RouterTokenConfig): RouterTokenManager {
+  routerTokenInstance?.stop();
+  routerTokenInstance = new RouterTokenManager(config);
+  return routerTokenInstance;
+}
+
+/**
+ * Get the router token manager
+ *
+ * @returns The manager, or null when no Model Router is configured
+ */
+export function getRouterToken(): RouterTokenManager | null {
+  return routerTokenInstance;
+}
+
+/**
+ * Read token lifecycle settings from env
+ */
+export function getRouterTokenSettings(): Pick<RouterTokenConfig, 'tokenFile' | 'warnBeforeSeconds' | 'checkIntervalSeconds'> {
+  const warn = parseInt(process.env.MODEL_ROUTER_TOKEN_WARN_SECONDS || '', 10);
+  const check = parseInt(process.env.MODEL_ROUTER_TOKEN_CHECK_SECONDS || '', 10);
+
+  return {
+    tokenFile: process.env.MODEL_ROUTER_TOKEN_FILE || undefined,
+    warnBeforeSeconds: Number.isNaN(warn) || warn < 0 ? undefined : warn,
+    checkIntervalSeconds: Number.isNaN(check) || check <= 0 ? undefined : check,
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Call Scheduler
+ *
+ * Shared admission control in front of every chat call, so concurrent
+ * queries fanning out to many models don't flood the router and set off
+ * 429 storms. A call waits in a priority queue until both the global and
+ * its model's in-flight limit have room.
+ *
+ * Priorities (served in this order, FIFO within a level):
+ * - INTERACTIVE: A user is waiting on the answer (chat UI)
+ * - NORMAL: API queries
+ * - BATCH: Benchmarks and bulk jobs, only run when nothing else waits
+ *
+ * A queued call whose model is at its limit doesn't block calls for other
+ * models behind it. Cancelled calls leave the queue immediately.
+ *
+ * ENVIRONMENT VARIABLES:
+ * - ENABLE_CALL_SCHEDULER: Set to 'false' to disable
+ * - ROUTER_MAX_CONCURRENCY: Global in-flight limit (default: 32)
+ * - ROUTER_MAX_CONCURRENCY_PER_MODEL: Per-model in-flight limit (default: 8)
+ * - ROUTER_MODEL_CONCURRENCY: Per-model overrides, e.g. {"gpt-4o":16}
+ */
+
+import { getMetrics } from '../pap/metrics.js';
+
+export type CallPriority = 'interactive' | 'normal' | 'batch';
+
+export interface SchedulerConfig {
+  maxConcurrent: number;
+  maxConcurrentPerModel: number;
+  /** Per-model limits that replace maxConcurrentPerModel */
+  modelLimits: Record<string, number>;
+}
+
+export interface SchedulerSnapshot {
+  inFlight: number;
+  queued: number;
+  queuedByPriority: Record<CallPriority, number>;
+  inFlightByModel: Record<string, number>;
+}
+
+/**
+ * Admission to make one call - release it when the call finishes
+ */
+export interface CallSlot {
+  /** Time spent waiting in the queue */
+  queueMs: number;
+  release(): void;
+}
+
+interface Waiter {
+  model: string;
+  priority: CallPriority;
+  sequence: number;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+const PRIORITY_ORDER: Record<CallPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  batch: 2,
+};
+
+export const CALL_PRIORITIES = Object.keys(PRIORITY_ORDER) as CallPriority[];
+
+export class CallScheduler {
+  private inFlight = 0;
+  private inFlightByModel = new Map<string, number>();
+  // Sorted by priority, then arrival
+  private queue: Waiter[] = [];
+  private sequence = 0;
+
+  constructor(private config: SchedulerConfig) {}
+
+  /**
+   * Wait for room to call a model
+   *
+   * @throws The signal's reason if the caller cancels while queued
+   */
+  acquire(model: string, priority: CallPriority = 'normal', signal?: AbortSignal): Promise<CallSlot> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    // Nothing queued ahead - start right away
+    if (this.queue.length === 0 && this.hasRoom(model)) {
+      this.begin(model);
+      return Promise.resolve({ queueMs: 0, release: this.releaser(model) });
+    }
+
+    return new Promise<CallSlot>((resolve, reject) => {
+      const waiter: Waiter = {
+        model,
+        priority,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          const queueMs = Date.now() - waiter.enqueuedAt;
+          getMetrics()?.recordSchedulerWait(queueMs);
+          resolve({ queueMs, release: this.releaser(model) });
+        },
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          this.reportDepth();
+        }
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.enqueue(waiter);
+      // A waiter for an idle model may start even though others are queued
+      this.drain();
+    });
+  }
+
+  getSnapshot(): SchedulerSnapshot {
+    const queuedByPriority: Record<CallPriority, number> = { interactive: 0, normal: 0, batch: 0 };
+    for (const waiter of this.queue) {
+      queuedByPriority[waiter.priority]++;
+    }
+
+    return {
+      inFlight: this.inFlight,
+      queued: this.queue.length,
+      queuedByPriority,
+      inFlightByModel: Object.fromEntries(this.inFlightByModel),
+    };
+  }
+
+  private hasRoom(model: string): boolean {
+    const modelLimit = this.config.modelLimits[model] ?? this.config.maxConcurrentPerModel;
+    return this.inFlight < this.config.maxConcurrent &&
+      (this.inFlightByModel.get(model) ?? 0) < modelLimit;
+  }
+
+  private begin(model: string): void {
+    this.inFlight++;
+    this.inFlightByModel.set(model, (this.inFlightByModel.get(model) ?? 0) + 1);
+  }
+
+  private releaser(model: string): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      this.inFlight--;
+      const count = (this.inFlightByModel.get(model) ?? 1) - 1;
+      if (count > 0) {
+        this.inFlightByModel.set(model, count);
+      } else {
+        this.inFlightByModel.delete(model);
+      }
+      this.drain();
+    };
+  }
+
+  private enqueue(waiter: Waiter): void {
+    const rank = PRIORITY_ORDER[waiter.priority];
+    const index = this.queue.findIndex(w => PRIORITY_ORDER[w.priority] > rank);
+    if (index < 0) {
+      this.queue.push(waiter);
+    } else {
+      this.queue.splice(index, 0, waiter);
+    }
+    this.reportDepth();
+  }
+
+  /**
+   * Start queued calls in priority order while there is room
+   */
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.inFlight < this.config.maxConcurrent; ) {
+      const waiter = this.queue[i];
+      if (!this.hasRoom(waiter.model)) {
+        i++; // Model at its limit - look further down the queue
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      this.begin(waiter.model);
+      waiter.start();
+    }
+    this.reportDepth();
+  }
+
+  private reportDepth(): void {
+    getMetrics()?.recordSchedulerState(this.queue.length, this.inFlight);
+  }
+}
+
+// ============================================================================
+// SINGLETON INSTANCE
+// ============================================================================
+
+let schedulerInstance: CallScheduler | null = null;
+
+/**
+ * Read scheduler limits from env
+ */
+function getSchedulerConfig(): SchedulerConfig {
+  let modelLimits: Record<string, number> = {};
+  if (process.env.ROUTER_MODEL_CONCURRENCY) {
+    try {
+      modelLimits = JSON.parse(process.env.ROUTER_MODEL_CONCURRENCY) as Record<string, number>;
+    } catch (error) {
+      console.warn('[Scheduler] Ignoring invalid ROUTER_MODEL_CONCURRENCY:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    maxConcurrent: parseInt(process.env.ROUTER_MAX_CONCURRENCY || '32', 10),
+    maxConcurrentPerModel: parseInt(process.env.ROUTER_MAX_CONCURRENCY_PER_MODEL || '8', 10),
+    modelLimits,
+  };
+}
+
+/**
+ * Get the shared scheduler (null when disabled)
+ */
+export function getCallScheduler(): CallScheduler | null {
+  if (!isCallSchedulerEnabled()) return null;
+  if (!schedulerInstance) {
+    schedulerInstance = new CallScheduler(getSchedulerConfig());
+  }
+  return schedulerInstance;
+}
+
+/**
+ * Wait for a call slot on the shared scheduler (immediate when disabled)
+ */
+export function acquireCallSlot(
+  model: string,
+  options: { priority?: CallPriority; signal?: AbortSignal }
+): Promise<CallSlot> {
+  const scheduler = getCallScheduler();
+  if (!scheduler) {
+    return Promise.resolve({ queueMs: 0, release: () => {} });
+  }
+  return scheduler.acquire(model, options.priority, options.signal);
+}
+
+/**
+ * Check if the call scheduler is enabled via environment variable
+ */
+export function isCallSchedulerEnabled(): boolean {
+  return process.env.ENABLE_CALL_SCHEDULER !== 'false';
+}
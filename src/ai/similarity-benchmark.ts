@@ -0,0 +1,200 @@
+/**
+ * Similarity Benchmark Harness
+ *
+ * Runs a labelled set of answer pairs through similarity strategies and
+ * reports how well each strategy separates agreeing pairs from
+ * disagreeing ones. Use the suggested thresholds to tune a strategy's
+ * consensus thresholds (SIMILARITY_THRESHOLDS).
+ */
+
+import {
+  getSimilarityStrategy,
+  listSimilarityStrategies,
+} from './similarity.js';
+
+export interface LabelledPair {
+  a: string;
+  b: string;
+  /** True if the two answers reach the same conclusion */
+  agree: boolean;
+  note?: string;
+}
+
+export interface StrategyBenchmarkResult {
+  strategy: string;
+  pairCount: number;
+  meanAgreeScore: number;
+  meanDisagreeScore: number;
+  /** meanAgreeScore - meanDisagreeScore */
+  separation: number;
+  /** Probability that a random agreeing pair outscores a random disagreeing pair */
+  auc: number;
+  /** Threshold that best classifies pairs as agree/disagree */
+  bestThreshold: number;
+  bestAccuracy: number;
+  suggestedThresholds: {
+    /** Best agree/disagree cut-off - candidate for the strategy's split threshold */
+    split: number;
+    /** Lowest score above every disagreeing pair - candidate for the strategy's unanimous threshold */
+    unanimous: number;
+  };
+  durationMs: number;
+  error?: string;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Area under the ROC curve (Mann-Whitney U statistic)
+ */
+function calculateAuc(agreeScores: number[], disagreeScores: number[]): number {
+  if (agreeScores.length === 0 || disagreeScores.length === 0) return 0;
+
+  let wins = 0;
+  for (const agree of agreeScores) {
+    for (const disagree of disagreeScores) {
+      if (agree > disagree) wins += 1;
+      else if (agree === disagree) wins += 0.5;
+    }
+  }
+
+  return wins / (agreeScores.length * disagreeScores.length);
+}
+
+/**
+ * Find the threshold with the highest agree/disagree classification accuracy
+ */
+function findBestThreshold(
+  scored: Array<{ score: number; agree: boolean }>
+): { threshold: number; accuracy: number } {
+  const candidates = [...new Set(scored.map(s => s.score))].sort((a, b) => a - b);
+  let best = { threshold: 0.5, accuracy: 0 };
+
+  for (const threshold of candidates) {
+    const correct = scored.filter(s => (s.score >= threshold) === s.agree).length;
+    const accuracy = correct / scored.length;
+    if (accuracy > best.accuracy) {
+      best = { threshold, accuracy };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Benchmark a single strategy against labelled pairs
+ */
+async function benchmarkStrategy(
+  strategyName: string,
+  pairs: LabelledPair[]
+): Promise<StrategyBenchmarkResult> {
+  const startTime = Date.now();
+  const strategy = getSimilarityStrategy(strategyName);
+
+  const emptyResult: StrategyBenchmarkResult = {
+    strategy: strategyName,
+    pairCount: pairs.length,
+    meanAgreeScore: 0,
+    meanDisagreeScore: 0,
+    separation: 0,
+    auc: 0,
+    bestThreshold: 0,
+    bestAccuracy: 0,
+    suggestedThresholds: { split: 0, unanimous: 0 },
+    durationMs: 0,
+  };
+
+  if (!strategy) {
+    return { ...emptyResult, error: 'Unknown strategy' };
+  }
+
+  try {
+    // Score pairs one at a time so each pair is judged in isolation
+    const scored: Array<{ score: number; agree: boolean }> = [];
+    for (const pair of pairs) {
+      const matrix = await strategy.calculateSimilarities([pair.a, pair.b]);
+      scored.push({ score: matrix[0][1], agree: pair.agree });
+    }
+
+    const agreeScores = scored.filter(s => s.agree).map(s => s.score);
+    const disagreeScores = scored.filter(s => !s.agree).map(s => s.score);
+    const best = findBestThreshold(scored);
+    const maxDisagree = disagreeScores.length > 0 ? Math.max(...disagreeScores) : 0;
+
+    return {
+      ...emptyResult,
+      meanAgreeScore: round(mean(agreeScores)),
+      meanDisagreeScore: round(mean(disagreeScores)),
+      separation: round(mean(agreeScores) - mean(disagreeScores)),
+      auc: round(calculateAuc(agreeScores, disagreeScores)),
+      bestThreshold: round(best.threshold),
+      bestAccuracy: round(best.accuracy),
+      suggestedThresholds: {
+        split: round(best.threshold),
+        unanimous: round(Math.min(1, maxDisagree + 0.01)),
+      },
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      ...emptyResult,
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Run labelled pairs through every requested strategy (default: all registered)
+ */
+export async function runSimilarityBenchmark(
+  pairs: LabelledPair[],
+  strategyNames: string[] = listSimilarityStrategies().map(s => s.name)
+): Promise<StrategyBenchmarkResult[]> {
+  const results: StrategyBenchmarkResult[] = [];
+
+  // Sequential to avoid flooding the router with judge/embedding calls
+  for (const name of strategyNames) {
+    results.push(await benchmarkStrategy(name, pairs));
+  }
+
+  // Best separating strategy first
+  return results.sort((a, b) => b.auc - a.auc);
+}
+
+/**
+ * Format benchmark results as a plain-text table
+ */
+export function formatBenchmarkReport(results: StrategyBenchmarkResult[]): string {
+  const header = ['strategy', 'auc', 'agree', 'disagree', 'separation', 'threshold', 'accuracy', 'unanimous', 'ms'];
+  const rows = results.map(r =>
+    r.error
+      ? [r.strategy, `error: ${r.error}`]
+      : [
+          r.strategy,
+          r.auc.toFixed(3),
+          r.meanAgreeScore.toFixed(3),
+          r.meanDisagreeScore.toFixed(3),
+          r.separation.toFixed(3),
+          r.suggestedThresholds.split.toFixed(3),
+          `${Math.round(r.bestAccuracy * 100)}%`,
+          r.suggestedThresholds.unanimous.toFixed(3),
+          String(r.durationMs),
+        ]
+  );
+
+  return [header, ...rows].map(row => row.join('\t')).join('\n');
+}
+
+/**
+ * Format the suggested thresholds as a SIMILARITY_THRESHOLDS value
+ */
+export function formatSuggestedThresholds(results: StrategyBenchmarkResult[]): string {
+  const thresholds = Object.fromEntries(
+    results.filter(r => !r.error).map(r => [r.strategy, r.suggestedThresholds])
+  );
+  return `SIMILARITY_THRESHOLDS=${JSON.stringify(thresholds)}`;
+}
@@ -0,0 +1,507 @@
+/**
+ * Similarity Strategy Registry
+ *
+ * Pluggable measures of agreement between model answers. Each strategy
+ * turns a list of answers into a symmetric pairwise similarity matrix
+ * with scores in [0, 1] and ones on the diagonal.
+ *
+ * Built-in strategies:
+ * - tfidf: TF-IDF cosine similarity (offline, lexical)
+ * - jaccard: Token set overlap (offline, lexical)
+ * - bm25: Symmetric normalized BM25 (offline, lexical)
+ * - embedding: Embedding cosine similarity via the Model Router
+ * - llm-judge: A router model rates agreement between each pair
+ *
+ * Selection order: per-request strategy, then SIMILARITY_BACKEND env var,
+ * then 'embedding'. Strategies that fail fall back to TF-IDF.
+ *
+ * Scores are not comparable across strategies, so each strategy has its
+ * own consensus thresholds (SIMILARITY_THRESHOLDS overrides them).
+ */
+
+import natural from 'natural';
+import { getModelRouter } from './model-router.js';
+import { calculateEmbeddingRow, calculateEmbeddingSimilarities } from './embeddings.js';
+import { toCallUsage, type UsageLedger } from './usage.js';
+
+const TfIdf = natural.TfIdf;
+const WordTokenizer = natural.WordTokenizer;
+const tokenizer = new WordTokenizer();
+const STOPWORDS = new Set<string>(natural.stopwords);
+
+/**
+ * Per-call options for router-backed strategies
+ */
+export interface SimilarityOptions {
+  /** Records the router calls a strategy makes (stage 'similarity') */
+  ledger?: UsageLedger;
+  /** Cancels the strategy's router calls (the matrix then falls back to TF-IDF) */
+  signal?: AbortSignal;
+  /** Embedding vectors by text - answers already embedded in this query are not sent again */
+  embeddings?: Map<string, number[]>;
+}
+
+/**
+ * Consensus thresholds on a strategy's scores
+ */
+export interface SimilarityThresholds {
+  /** Answers at least this similar share a faction */
+  split: number;
+  /** Mean agreement at least this high makes a single faction unanimous */
+  unanimous: number;
+}
+
+export interface SimilarityStrategy {
+  /** Unique strategy name used for selection */
+  name: string;
+  /** Short human-readable description */
+  description: string;
+  /** True if the strategy needs the Model Router (not usable offline) */
+  requiresRouter: boolean;
+  /** Thresholds suited to this strategy's score range (tune with the benchmark harness) */
+  defaultThresholds?: SimilarityThresholds;
+  /** Build a symmetric pairwise similarity matrix for the texts */
+  calculateSimilarities(texts: string[], options?: SimilarityOptions): Promise<number[][]>;
+  /** Score one text against earlier ones (without it the whole set is rescored) */
+  calculateRow?(text: string, others: string[], options?: SimilarityOptions): Promise<number[]>;
+}
+
+export interface SimilarityRowResult {
+  /** Similarity of the text to each of the others */
+  scores: number[];
+  /** Name of the strategy that actually produced the scores */
+  strategy: string;
+}
+
+export interface SimilarityMatrixResult {
+  similarities: number[][];
+  /** Name of the strategy that actually produced the matrix */
+  strategy: string;
+}
+
+// Default strategy and offline fallback
+const DEFAULT_STRATEGY = 'embedding';
+const FALLBACK_STRATEGY = 'tfidf';
+
+// Thresholds for strategies that don't define their own
+const DEFAULT_THRESHOLDS: SimilarityThresholds = { split: 0.6, unanimous: 0.9 };
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Answers are truncated before being sent to the LLM judge
+const MAX_JUDGE_ANSWER_LENGTH = 1500;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return tokenizer.tokenize(text.toLowerCase()) || [];
+}
+
+function tokenizeContent(text: string): string[] {
+  return tokenize(text).filter(token => !STOPWORDS.has(token));
+}
+
+/**
+ * Build a symmetric matrix from a pairwise scoring function
+ */
+function buildMatrix(
+  count: number,
+  score: (i: number, j: number) => number
+): number[][] {
+  const similarities: number[][] = Array(count)
+    .fill(null)
+    .map(() => Array(count).fill(0));
+
+  for (let i = 0; i < count; i++) {
+    similarities[i][i] = 1;
+    for (let j = i + 1; j < count; j++) {
+      const similarity = Math.max(0, Math.min(1, score(i, j)));
+      similarities[i][j] = similarity;
+      similarities[j][i] = similarity;
+    }
+  }
+
+  return similarities;
+}
+
+// ============================================================================
+// BUILT-IN STRATEGIES
+// ============================================================================
+
+/**
+ * TF-IDF cosine similarity between two text strings
+ */
+function tfIdfSimilarity(text1: string, text2: string): number {
+  if (!text1 || !text2) return 0;
+
+  // Tokenize and normalize
+  const tokens1 = tokenize(text1);
+  const tokens2 = tokenize(text2);
+
+  if (tokens1.length === 0 || tokens2.length === 0) return 0;
+
+  // Create TF-IDF instance
+  const tfidf = new TfIdf();
+  tfidf.addDocument(tokens1);
+  tfidf.addDocument(tokens2);
+
+  // Calculate term vectors
+  const allTerms = new Set([...tokens1, ...tokens2]);
+  const vector1: number[] = [];
+  const vector2: number[] = [];
+
+  for (const term of allTerms) {
+    let score1 = 0;
+    let score2 = 0;
+
+    tfidf.tfidfs(term, (i, measure) => {
+      if (i === 0) score1 = measure;
+      if (i === 1) score2 = measure;
+    });
+
+    vector1.push(score1);
+    vector2.push(score2);
+  }
+
+  // Cosine similarity
+  const dotProduct = vector1.reduce((sum, val, i) => sum + val * vector2[i], 0);
+  const magnitude1 = Math.sqrt(vector1.reduce((sum, val) => sum + val * val, 0));
+  const magnitude2 = Math.sqrt(vector2.reduce((sum, val) => sum + val * val, 0));
+
+  if (magnitude1 === 0 || magnitude2 === 0) return 0;
+
+  return dotProduct / (magnitude1 * magnitude2);
+}
+
+const tfIdfStrategy: SimilarityStrategy = {
+  name: 'tfidf',
+  description: 'TF-IDF cosine similarity over word tokens',
+  requiresRouter: false,
+  defaultThresholds: { split: 0.6, unanimous: 0.9 },
+  async calculateSimilarities(texts) {
+    return buildMatrix(texts.length, (i, j) => tfIdfSimilarity(texts[i], texts[j]));
+  },
+};
+
+const jaccardStrategy: SimilarityStrategy = {
+  name: 'jaccard',
+  description: 'Jaccard overlap of content-word sets',
+  requiresRouter: false,
+  // Set overlap runs lower than cosine scores for the same answers
+  defaultThresholds: { split: 0.4, unanimous: 0.75 },
+  async calculateSimilarities(texts) {
+    const tokenSets = texts.map(text => new Set(tokenizeContent(text)));
+
+    return buildMatrix(texts.length, (i, j) => {
+      const set1 = tokenSets[i];
+      const set2 = tokenSets[j];
+      if (set1.size === 0 || set2.size === 0) return 0;
+
+      let intersection = 0;
+      for (const token of set1) {
+        if (set2.has(token)) intersection++;
+      }
+
+      return intersection / (set1.size + set2.size - intersection);
+    });
+  },
+};
+
+const bm25Strategy: SimilarityStrategy = {
+  name: 'bm25',
+  description: 'Symmetric BM25 relevance, normalized by self-score',
+  requiresRouter: false,
+  defaultThresholds: { split: 0.45, unanimous: 0.8 },
+  async calculateSimilarities(texts) {
+    const documents = texts.map(tokenizeContent);
+    const documentCount = documents.length;
+    const avgLength =
+      documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documentCount, 1);
+
+    // Term frequencies per document and document frequencies across the set
+    const termFrequencies = documents.map(doc => {
+      const tf = new Map<string, number>();
+      for (const term of doc) tf.set(term, (tf.get(term) || 0) + 1);
+      return tf;
+    });
+
+    const documentFrequencies = new Map<string, number>();
+    for (const tf of termFrequencies) {
+      for (const term of tf.keys()) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+      }
+    }
+
+    const idf = (term: string): number => {
+      const df = documentFrequencies.get(term) || 0;
+      return Math.log((documentCount - df + 0.5) / (df + 0.5) + 1);
+    };
+
+    // BM25 score of document `target` for the terms of document `query`
+    const score = (query: number, target: number): number => {
+      const tf = termFrequencies[target];
+      const length = documents[target].length;
+      let total = 0;
+
+      for (const term of termFrequencies[query].keys()) {
+        const frequency = tf.get(term) || 0;
+        if (frequency === 0) continue;
+
+        const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / (avgLength || 1)));
+        total += idf(term) * ((frequency * (BM25_K1 + 1)) / norm);
+      }
+
+      return total;
+    };
+
+    const selfScores = documents.map((_, i) => score(i, i));
+
+    return buildMatrix(documentCount, (i, j) => {
+      if (selfScores[i] === 0 || selfScores[j] === 0) return 0;
+      return (score(i, j) / selfScores[i] + score(j, i) / selfScores[j]) / 2;
+    });
+  },
+};
+
+const embeddingStrategy: SimilarityStrategy = {
+  name: 'embedding',
+  description: 'Embedding cosine similarity via the Model Router',
+  requiresRouter: true,
+  // Answers to the same question embed close together even when they disagree
+  defaultThresholds: { split: 0.8, unanimous: 0.92 },
+  calculateSimilarities: calculateEmbeddingSimilarities,
+  calculateRow: calculateEmbeddingRow,
+};
+
+// LLM judge prompt template
+const JUDGE_PROMPT = `You are judging whether several AI answers to the same question agree with each other.
+
+ANSWERS:
+{answers}
+
+For EVERY pair of answers, rate how strongly they agree on their conclusions and key claims, from 0 (contradictory) to 1 (same conclusion). Judge meaning, not wording or length.
+
+Respond with ONLY valid JSON (no markdown, no explanation):
+{"pairs": [{"a": 1, "b": 2, "score": 0.85}]}`;
+
+const llmJudgeStrategy: SimilarityStrategy = {
+  name: 'llm-judge',
+  description: 'A router model rates agreement between each pair of answers',
+  requiresRouter: true,
+  defaultThresholds: { split: 0.6, unanimous: 0.85 },
+  async calculateSimilarities(texts, options = {}) {
+    const router = getModelRouter();
+    if (!router) {
+      throw new Error('Model Router not initialized');
+    }
+
+    const judgeModel = getSimilarityJudgeModel();
+    const answersFormatted = texts
+      .map((text, i) => `[${i + 1}]: ${text.slice(0, MAX_JUDGE_ANSWER_LENGTH)}`)
+      .join('\n\n');
+
+    const response = await router.chat({
+      model: judgeModel,
+      messages: [
+        { role: 'system', content: 'You are an impartial agreement judge. Respond only with valid JSON.' },
+        { role: 'user', content: JUDGE_PROMPT.replace('{answers}', answersFormatted) },
+      ],
+      temperature: 0,
+      max_tokens: 1024,
+    }, { signal: options.signal });
+    // Billed even if the judgement turns out unusable
+    options.ledger?.record('similarity', judgeModel, toCallUsage(response));
+
+    const content = response.choices[0]?.message?.content || '';
+
+    // Parse JSON response, handling potential markdown code blocks
+    let jsonContent = content;
+    if (content.includes('```json')) {
+      jsonContent = content.split('```json')[1].split('```')[0].trim();
+    } else if (content.includes('```')) {
+      jsonContent = content.split('```')[1].split('```')[0].trim();
+    }
+
+    const judgement = JSON.parse(jsonContent) as {
+      pairs?: Array<{ a: number; b: number; score: number }>;
+    };
+
+    const scores = new Map<string, number>();
+    for (const pair of judgement.pairs ?? []) {
+      if (typeof pair.score !== 'number') continue;
+      const i = Math.min(pair.a, pair.b) - 1;
+      const j = Math.max(pair.a, pair.b) - 1;
+      scores.set(`${i}:${j}`, pair.score);
+    }
+
+    return buildMatrix(texts.length, (i, j) => {
+      const score = scores.get(`${i}:${j}`);
+      if (score === undefined) {
+        throw new Error(`LLM judge did not score pair ${i + 1}/${j + 1}`);
+      }
+      return score;
+    });
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const registry = new Map<string, SimilarityStrategy>();
+
+/**
+ * Register a similarity strategy (replaces any strategy with the same name)
+ */
+export function registerSimilarityStrategy(strategy: SimilarityStrategy): void {
+  registry.set(strategy.name, strategy);
+}
+
+/**
+ * Get a registered similarity strategy by name
+ */
+export function getSimilarityStrategy(name: string): SimilarityStrategy | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Check if a similarity strategy is registered
+ */
+export function hasSimilarityStrategy(name: string): boolean {
+  return registry.has(name);
+}
+
+/**
+ * List all registered similarity strategies
+ */
+export function listSimilarityStrategies(): SimilarityStrategy[] {
+  return [...registry.values()];
+}
+
+/**
+ * Model that rates agreement for the llm-judge strategy
+ */
+export function getSimilarityJudgeModel(): string {
+  return process.env.SIMILARITY_JUDGE_MODEL || 'gemini-1.5-flash';
+}
+
+/**
+ * Get the default strategy name from env (SIMILARITY_BACKEND) or use default
+ */
+export function getDefaultSimilarityStrategyName(): string {
+  const name = process.env.SIMILARITY_BACKEND || DEFAULT_STRATEGY;
+
+  if (!registry.has(name)) {
+    console.warn(`[Similarity] Unknown SIMILARITY_BACKEND "${name}", using ${DEFAULT_STRATEGY}`);
+    return DEFAULT_STRATEGY;
+  }
+
+  return name;
+}
+
+/**
+ * Consensus thresholds for the strategy that produced a matrix
+ *
+ * Per-strategy overrides in SIMILARITY_THRESHOLDS (e.g.
+ * {"embedding":{"split":0.82}}) come first, then CONSENSUS_THRESHOLD and
+ * UNANIMOUS_THRESHOLD for every strategy, then the strategy's defaults.
+ */
+export function getSimilarityThresholds(strategyName: string): SimilarityThresholds {
+  const defaults = registry.get(strategyName)?.defaultThresholds ?? DEFAULT_THRESHOLDS;
+
+  let overrides: Partial<SimilarityThresholds> = {};
+  if (process.env.SIMILARITY_THRESHOLDS) {
+    try {
+      const parsed = JSON.parse(process.env.SIMILARITY_THRESHOLDS) as Record<string, Partial<SimilarityThresholds>>;
+      overrides = Object.hasOwn(parsed, strategyName) ? parsed[strategyName] : {};
+    } catch (error) {
+      console.warn('[Similarity] Ignoring invalid SIMILARITY_THRESHOLDS:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    split: overrides.split ?? parseThreshold(process.env.CONSENSUS_THRESHOLD) ?? defaults.split,
+    unanimous: overrides.unanimous ?? parseThreshold(process.env.UNANIMOUS_THRESHOLD) ?? defaults.unanimous,
+  };
+}
+
+function parseThreshold(value: string | undefined): number | undefined {
+  const threshold = parseFloat(value ?? '');
+  return Number.isNaN(threshold) ? undefined : threshold;
+}
+
+/**
+ * Calculate a pairwise similarity matrix with the selected strategy
+ *
+ * Falls back to TF-IDF if the selected strategy fails (router down,
+ * unparseable judge output, etc.). The returned strategy name records
+ * which strategy actually produced the scores.
+ */
+export async function calculateSimilarityMatrix(
+  texts: string[],
+  strategyName: string = getDefaultSimilarityStrategyName(),
+  options: SimilarityOptions = {}
+): Promise<SimilarityMatrixResult> {
+  const strategy = registry.get(strategyName);
+  const fallback = registry.get(FALLBACK_STRATEGY)!;
+
+  if (strategy && strategy !== fallback) {
+    try {
+      const similarities = await strategy.calculateSimilarities(texts, options);
+      return { similarities, strategy: strategy.name };
+    } catch (error) {
+      console.warn(
+        `[Similarity] Strategy ${strategy.name} failed, falling back to ${FALLBACK_STRATEGY}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  } else if (!strategy) {
+    console.warn(`[Similarity] Unknown strategy "${strategyName}", using ${FALLBACK_STRATEGY}`);
+  }
+
+  return {
+    similarities: await fallback.calculateSimilarities(texts),
+    strategy: fallback.name,
+  };
+}
+
+/**
+ * Score one new text against earlier ones with the selected strategy
+ *
+ * Used to extend a matrix as answers arrive. Strategies without a row
+ * method rescore the whole set; failures fall back to TF-IDF like
+ * calculateSimilarityMatrix.
+ */
+export async function calculateSimilarityRow(
+  text: string,
+  others: string[],
+  strategyName: string = getDefaultSimilarityStrategyName(),
+  options: SimilarityOptions = {}
+): Promise<SimilarityRowResult> {
+  const strategy = registry.get(strategyName);
+
+  if (strategy?.calculateRow) {
+    try {
+      return { scores: await strategy.calculateRow(text, others, options), strategy: strategy.name };
+    } catch (error) {
+      console.warn(
+        `[Similarity] Strategy ${strategy.name} failed, falling back to ${FALLBACK_STRATEGY}:`,
+        error instanceof Error ? error.message : error
+      );
+      strategyName = FALLBACK_STRATEGY;
+    }
+  }
+
+  const { similarities, strategy: used } = await calculateSimilarityMatrix([...others, text], strategyName, options);
+  return { scores: similarities[others.length].slice(0, others.length), strategy: used };
+}
+
+registerSimilarityStrategy(tfIdfStrategy);
+registerSimilarityStrategy(jaccardStrategy);
+registerSimilarityStrategy(bm25Strategy);
+registerSimilarityStrategy(embeddingStrategy);
+registerSimilarityStrategy(llmJudgeStrategy);
@@ -0,0 +1,360 @@
+/**
+ * Structured Answer Module
+ *
+ * Many questions have discrete answers. With a structured answer type,
+ * jurors return JSON and consensus comes from exact vote counting (or
+ * numeric spread) instead of text similarity.
+ *
+ * Answer Types:
+ * - boolean: true / false
+ * - choice: one of a fixed list of options
+ * - number: a number, optionally with a unit (median + IQR reported)
+ * - json: an object matching a caller-supplied JSON schema
+ */
+
+import type { ModelResponse, ConsensusResult } from './consensus.js';
+import { determineVerdict, Faction } from './factions.js';
+
+export type AnswerType =
+  | { type: 'boolean' }
+  | { type: 'choice'; options: string[] }
+  | { type: 'number'; unit?: string }
+  | { type: 'json'; schema: Record<string, unknown> };
+
+export interface VoteCount {
+  /** Display label for the value (e.g. "Yes", "Option B") */
+  label: string;
+  value: unknown;
+  count: number;
+  share: number;
+  models: string[];
+}
+
+export interface NumericSummary {
+  median: number;
+  q1: number;
+  q3: number;
+  iqr: number;
+  min: number;
+  max: number;
+  unit?: string;
+}
+
+export interface StructuredConsensus {
+  answerType: AnswerType;
+  /** Vote distribution for boolean, choice and json answers (most votes first) */
+  distribution?: VoteCount[];
+  /** Spread statistics for number answers */
+  numeric?: NumericSummary;
+  /** Jurors whose output could not be parsed as the requested type */
+  invalidModels: string[];
+}
+
+// Two numbers agree when they differ by at most this fraction (override with NUMERIC_AGREEMENT_TOLERANCE)
+const DEFAULT_NUMERIC_TOLERANCE = 0.05;
+
+// ============================================================================
+// PROMPTING AND PARSING
+// ============================================================================
+
+/**
+ * Build juror instructions for a structured answer type
+ * Appended to the jury system prompt
+ */
+export function buildStructuredInstructions(answerType: AnswerType): string {
+  let answerSpec: string;
+
+  switch (answerType.type) {
+    case 'boolean':
+      answerSpec = '"answer" must be true or false';
+      break;
+    case 'choice':
+      answerSpec = `"answer" must be exactly one of: ${answerType.options.map(o => JSON.stringify(o)).join(', ')}`;
+      break;
+    case 'number':
+      answerSpec = answerType.unit
+        ? `"answer" must be a single number expressed in ${answerType.unit} (no unit in the value)`
+        : '"answer" must be a single number';
+      break;
+    case 'json':
+      answerSpec = `"answer" must be an object matching this JSON schema:\n${JSON.stringify(answerType.schema, null, 2)}`;
+      break;
+  }
+
+  return `## STRUCTURED ANSWER FORMAT (REQUIRED)
+Respond with ONLY valid JSON (no markdown, no text outside JSON):
+{"answer": <your answer>, "reasoning": "<2-3 sentences>"}
+
+${answerSpec}.`;
+}
+
+/**
+ * Minimal JSON schema check (type, enum, required, properties, items)
+ */
+function matchesSchema(value: unknown, schema: Record<string, unknown>): boolean {
+  if (Array.isArray(schema.enum) && !schema.enum.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+    return false;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array': {
+      if (!Array.isArray(value)) return false;
+      const items = schema.items as Record<string, unknown> | undefined;
+      return !items || value.every(item => matchesSchema(item, items));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+      const record = value as Record<string, unknown>;
+      const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+      if (required.some(key => !(key in record))) return false;
+
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.entries(properties).every(
+        ([key, propertySchema]) => !(key in record) || matchesSchema(record[key], propertySchema)
+      );
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parse a juror's structured output
+ * Throws if the output does not match the answer type
+ */
+export function parseStructuredAnswer(
+  content: string,
+  answerType: AnswerType
+): { value: unknown; reasoning?: string } {
+  // Parse JSON, handling potential markdown code blocks
+  let jsonContent = content;
+  if (content.includes('```json')) {
+    jsonContent = content.split('```json')[1].split('```')[0].trim();
+  } else if (content.includes('```')) {
+    jsonContent = content.split('```')[1].split('```')[0].trim();
+  }
+
+  const parsed = JSON.parse(jsonContent);
+  if (typeof parsed !== 'object' || parsed === null || !('answer' in parsed)) {
+    throw new Error('Missing "answer" field');
+  }
+
+  const raw = parsed.answer;
+  const reasoning = typeof parsed.reasoning === 'string' ? parsed.reasoning : undefined;
+
+  switch (answerType.type) {
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw, reasoning };
+      const normalized = String(raw).trim().toLowerCase();
+      if (['true', 'yes'].includes(normalized)) return { value: true, reasoning };
+      if (['false', 'no'].includes(normalized)) return { value: false, reasoning };
+      throw new Error(`Not a boolean: ${JSON.stringify(raw)}`);
+    }
+    case 'choice': {
+      const option = answerType.options.find(
+        o => o.trim().toLowerCase() === String(raw).trim().toLowerCase()
+      );
+      if (!option) throw new Error(`Not one of the options: ${JSON.stringify(raw)}`);
+      return { value: option, reasoning };
+    }
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : parseFloat(String(raw).replace(/,/g, ''));
+      if (!Number.isFinite(value)) throw new Error(`Not a number: ${JSON.stringify(raw)}`);
+      return { value, reasoning };
+    }
+    case 'json': {
+      if (!matchesSchema(raw, answerType.schema)) {
+        throw new Error('Answer does not match the JSON schema');
+      }
+      return { value: raw, reasoning };
+    }
+  }
+}
+
+/**
+ * Format a structured value for display
+ */
+export function formatStructuredValue(value: unknown, answerType: AnswerType): string {
+  switch (answerType.type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'choice':
+      return String(value);
+    case 'number':
+      return answerType.unit ? `${value} ${answerType.unit}` : String(value);
+    case 'json':
+      return JSON.stringify(value);
+  }
+}
+
+// ============================================================================
+// CONSENSUS
+// ============================================================================
+
+/**
+ * Stable key for exact vote matching (object keys sorted)
+ */
+function canonicalKey(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+/**
+ * Linear-interpolated quantile of sorted values
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toFaction(voters: ModelResponse[]): Faction {
+  return {
+    members: voters.map(r => r.model),
+    size: voters.length,
+    representativeModel: voters[0].model,
+    representativeAnswer: voters[0].answer,
+    cohesion: 1,
+  };
+}
+
+/**
+ * Group numeric votes: sorted values join the current group while they stay
+ * within the tolerance of the group's first value
+ */
+function groupNumericVotes(voters: ModelResponse[], tolerance: number): ModelResponse[][] {
+  const sorted = [...voters].sort(
+    (a, b) => (a.structuredAnswer as number) - (b.structuredAnswer as number)
+  );
+  const groups: ModelResponse[][] = [];
+
+  for (const voter of sorted) {
+    const value = voter.structuredAnswer as number;
+    const group = groups[groups.length - 1];
+    const anchor = group?.[0].structuredAnswer as number | undefined;
+
+    if (
+      anchor !== undefined &&
+      Math.abs(value - anchor) <= tolerance * Math.max(Math.abs(value), Math.abs(anchor))
+    ) {
+      group.push(voter);
+    } else {
+      groups.push([voter]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Group structured votes that count as the same answer (largest group first)
+ *
+ * Boolean, choice and json answers must match exactly; numbers agree when
+ * within NUMERIC_AGREEMENT_TOLERANCE of each other.
+ */
+export function groupStructuredVotes(
+  voters: ModelResponse[],
+  answerType: AnswerType
+): ModelResponse[][] {
+  if (answerType.type === 'number') {
+    const tolerance = parseFloat(
+      process.env.NUMERIC_AGREEMENT_TOLERANCE || String(DEFAULT_NUMERIC_TOLERANCE)
+    );
+    return groupNumericVotes(voters, tolerance).sort((a, b) => b.length - a.length);
+  }
+
+  const byKey = new Map<string, ModelResponse[]>();
+  for (const voter of voters) {
+    const key = canonicalKey(voter.structuredAnswer);
+    byKey.set(key, [...(byKey.get(key) ?? []), voter]);
+  }
+
+  return [...byKey.values()].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Calculate consensus for structured answers by counting votes
+ *
+ * Text similarity is not used: boolean, choice and json answers must match
+ * exactly; numbers agree when within NUMERIC_AGREEMENT_TOLERANCE.
+ */
+export function calculateStructuredConsensus(
+  responses: ModelResponse[],
+  answerType: AnswerType
+): ConsensusResult {
+  const answered = responses.filter(r => r.success && r.answer);
+  const voters = answered.filter(r => r.structuredAnswer !== undefined);
+  const invalidModels = answered.filter(r => r.structuredAnswer === undefined).map(r => r.model);
+
+  if (voters.length === 0) {
+    return {
+      verdict: 'no_consensus',
+      confidence: 'low',
+      agreementScore: 0,
+      responses,
+      structured: { answerType, invalidModels },
+    };
+  }
+
+  const groups = groupStructuredVotes(voters, answerType);
+  let structured: StructuredConsensus;
+  let consensusAnswer: string;
+
+  if (answerType.type === 'number') {
+    const values = voters.map(r => r.structuredAnswer as number).sort((a, b) => a - b);
+    const numeric: NumericSummary = {
+      median: quantile(values, 0.5),
+      q1: quantile(values, 0.25),
+      q3: quantile(values, 0.75),
+      iqr: quantile(values, 0.75) - quantile(values, 0.25),
+      min: values[0],
+      max: values[values.length - 1],
+      unit: answerType.unit,
+    };
+
+    structured = { answerType, numeric, invalidModels };
+    consensusAnswer = formatStructuredValue(numeric.median, answerType);
+  } else {
+    const distribution: VoteCount[] = groups.map(group => ({
+      label: formatStructuredValue(group[0].structuredAnswer, answerType),
+      value: group[0].structuredAnswer,
+      count: group.length,
+      share: Math.round((group.length / voters.length) * 100) / 100,
+      models: group.map(r => r.model),
+    }));
+
+    structured = { answerType, distribution, invalidModels };
+    consensusAnswer = distribution[0].label;
+  }
+
+  const factions = groups.map(toFaction);
+  const { verdict, confidence } = voters.length < 2
+    ? { verdict: 'no_consensus' as const, confidence: 'low' as const }
+    : determineVerdict(factions, voters.length, groups.length === 1);
+
+  return {
+    verdict,
+    confidence,
+    // Share of valid votes held by the largest faction
+    agreementScore: Math.round((groups[0].length / voters.length) * 100) / 100,
+    responses,
+    consensusAnswer,
+    medoidAnswer: consensusAnswer,
+    factions,
+    structured,
+  };
+}
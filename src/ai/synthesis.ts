@@ -0,0 +1,159 @@
+/**
+ * Synthesis Module
+ *
+ * Merges the answers of the majority faction into one consensus answer
+ * through a router model call. Picking a single model's answer (the
+ * medoid) drops points the other agreeing models made; the synthesized
+ * answer keeps them and notes which jurors support each sentence.
+ *
+ * Disabled by default - it costs one extra router call per query.
+ */
+
+import { getModelRouter } from './model-router.js';
+import type { ModelResponse } from './consensus.js';
+import { toCallUsage, CallUsage } from './usage.js';
+
+export interface SynthesizedSentence {
+  text: string;
+  /** Jurors whose answers support this sentence */
+  supportingModels: string[];
+}
+
+export interface SynthesisResult {
+  answer: string;
+  sentences: SynthesizedSentence[];
+  /** Model that performed the synthesis */
+  model: string;
+  usage: CallUsage;
+}
+
+// Juror answers are truncated to keep the synthesis prompt bounded
+const MAX_JUROR_ANSWER_LENGTH = 3000;
+
+// Synthesis prompt template
+const SYNTHESIS_PROMPT = `Several AI jurors broadly agree on an answer to the question below. Merge their answers into ONE consensus answer.
+
+QUESTION:
+{question}
+
+JUROR ANSWERS:
+{answers}
+
+Rules:
+- Include every point that at least one juror makes, unless another juror contradicts it
+- Do not add facts that no juror states
+- Keep it concise and well-structured
+- Keep lists, code blocks and paragraphs: end a sentence's text with "\\n" when a line break follows it, or "\\n\\n" for a new paragraph
+- For each sentence, list the jurors (by their exact bracketed name) whose answers support it
+
+Respond with ONLY valid JSON (no markdown, no explanation):
+{"sentences": [{"text": "First sentence.", "supporters": ["juror-name-1", "juror-name-2"]}]}`;
+
+/**
+ * Synthesize a consensus answer from the agreeing jurors' answers
+ */
+export async function synthesizeConsensus(
+  question: string,
+  responses: ModelResponse[],
+  signal?: AbortSignal
+): Promise<SynthesisResult> {
+  const router = getModelRouter();
+  if (!router) {
+    throw new Error('Model Router not initialized');
+  }
+
+  const jurors = responses.filter(r => r.success && r.answer);
+  if (jurors.length < 2) {
+    throw new Error('Synthesis needs at least two agreeing answers');
+  }
+
+  const answersFormatted = jurors
+    .map(r => `[${r.model}]: ${r.answer.slice(0, MAX_JUROR_ANSWER_LENGTH)}`)
+    .join('\n\n');
+
+  const synthesisModel = getSynthesisModel();
+
+  const response = await router.chat({
+    model: synthesisModel,
+    messages: [
+      { role: 'system', content: 'You merge agreeing expert answers faithfully. Respond only with valid JSON.' },
+      {
+        role: 'user',
+        content: SYNTHESIS_PROMPT
+          .replace('{question}', question)
+          .replace('{answers}', answersFormatted),
+      },
+    ],
+    temperature: 0.2,
+    max_tokens: 2048,
+  }, { signal });
+
+  const content = response.choices[0]?.message?.content || '';
+
+  // Parse JSON response, handling potential markdown code blocks
+  let jsonContent = content;
+  if (content.includes('```json')) {
+    jsonContent = content.split('```json')[1].split('```')[0].trim();
+  } else if (content.includes('```')) {
+    jsonContent = content.split('```')[1].split('```')[0].trim();
+  }
+
+  const parsed = JSON.parse(jsonContent) as {
+    sentences?: Array<{ text?: unknown; supporters?: unknown }>;
+  };
+
+  // Only attribute support to jurors that actually took part
+  const jurorModels = new Set(jurors.map(r => r.model));
+  const parts = (parsed.sentences ?? [])
+    .filter((s): s is { text: string; supporters?: unknown } =>
+      typeof s.text === 'string' && s.text.trim().length > 0
+    );
+  const sentences: SynthesizedSentence[] = parts
+    .map(s => ({
+      text: s.text.trim(),
+      supportingModels: Array.isArray(s.supporters)
+        ? [...new Set(s.supporters.filter((m): m is string => typeof m === 'string' && jurorModels.has(m)))]
+        : [],
+    }));
+
+  if (sentences.length === 0) {
+    throw new Error('Synthesis returned no sentences');
+  }
+
+  return {
+    answer: joinSentences(parts.map(s => s.text)),
+    sentences,
+    model: synthesisModel,
+    usage: toCallUsage(response),
+  };
+}
+
+/**
+ * Join sentences into the answer, keeping the line breaks they end with
+ * (lists, code and paragraphs); other sentences are separated by a space
+ */
+function joinSentences(texts: string[]): string {
+  return texts
+    .reduce((answer, text) => {
+      if (!answer) return text.trimStart();
+      // After a line break the sentence keeps its indentation (nested lists, code)
+      if (answer.endsWith('\n') || text.startsWith('\n')) return answer + text;
+      return `${answer.trimEnd()} ${text.trimStart()}`;
+    }, '')
+    .trim();
+}
+
+/**
+ * Model that merges the agreeing answers
+ */
+export function getSynthesisModel(): string {
+  return process.env.SYNTHESIS_MODEL || 'claude-3-5-sonnet-20241022';
+}
+
+/**
+ * Check if synthesis is enabled via environment variable
+ * Disabled by default - it costs one extra router call per query
+ */
+export function isSynthesisEnabled(): boolean {
+  return process.env.ENABLE_SYNTHESIS === 'true';
+}
@@ -0,0 +1,209 @@
+/**
+ * Calculator Tool
+ *
+ * Evaluates arithmetic expressions for jurors, so answers that depend on
+ * arithmetic don't rest on the model's mental math. Expressions are parsed
+ * by a small recursive-descent parser - never eval().
+ *
+ * Supports: + - * / % ^, parentheses, constants (pi, e) and the functions
+ * sqrt, abs, round, floor, ceil, min, max, log (base 10), ln, exp, sin, cos, tan.
+ */
+
+import type { JuryTool } from './registry.js';
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/giy;
+
+  let index = 0;
+  while (expression.slice(index).trim()) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected "${expression.slice(index).trim()[0]}"`);
+    }
+    index = pattern.lastIndex;
+
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', value: parseFloat(match[1]) });
+    } else if (match[2] !== undefined) {
+      tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    } else {
+      // Accept ** as a power operator too
+      tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Evaluate an arithmetic expression
+ *
+ * @throws Error for syntax errors, unknown names and non-finite results
+ */
+export function evaluateExpression(expression: string): number {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return token?.type === 'op' && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power   (so -2^2 = -4)
+  const parseUnary = (): number => {
+    if (isOp('-')) {
+      position++;
+      return -parseUnary();
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?   (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (isOp('^')) {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | function "(" args ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+    position++;
+
+    if (token.type === 'number') return token.value;
+
+    if (token.type === 'name') {
+      // Own keys only - "constructor" or "toString" must not reach Object.prototype
+      if (Object.hasOwn(CONSTANTS, token.value) && !isOp('(')) return CONSTANTS[token.value];
+
+      const fn = Object.hasOwn(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!fn) throw new Error(`Unknown name "${token.value}"`);
+
+      expect('(');
+      const args = [parseExpression()];
+      while (isOp(',')) {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      return fn(...args);
+    }
+
+    if (token.value === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+  return result;
+}
+
+export const calculatorTool: JuryTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'calculator',
+      description:
+        'Evaluate an arithmetic expression (result rounded to 12 significant digits). Supports ' +
+        '+ - * / % ^, parentheses, pi, e and sqrt, abs, round, floor, ceil, min, max, log (base 10), ' +
+        'ln, exp, sin, cos, tan.',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', description: 'Expression, e.g. "(17.5 * 3) / 4 + sqrt(2)"' },
+        },
+        required: ['expression'],
+      },
+    },
+  },
+
+  execute(args) {
+    if (typeof args.expression !== 'string') {
+      throw new Error('"expression" must be a string');
+    }
+    // Round away floating point noise (0.1 + 0.2)
+    return String(parseFloat(evaluateExpression(args.expression).toPrecision(12)));
+  },
+};
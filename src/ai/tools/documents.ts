@@ -0,0 +1,114 @@
+/**
+ * Document Search Tool
+ *
+ * Lets jurors look up passages in documents the caller sent with the query
+ * instead of pasting every document into each juror's context. Documents
+ * are split into paragraph-sized passages and ranked with TF-IDF against
+ * the juror's search query (offline, no router call).
+ */
+
+import natural from 'natural';
+import type { JuryTool, JurorDocument } from './registry.js';
+
+// Passages longer than this are split further
+const MAX_PASSAGE_CHARS = 1200;
+
+const DEFAULT_RESULTS = 3;
+const MAX_RESULTS = 8;
+
+interface Passage {
+  documentId: string;
+  title?: string;
+  text: string;
+}
+
+/**
+ * Split documents into passages at blank lines, then at sentence ends
+ */
+function toPassages(documents: JurorDocument[]): Passage[] {
+  const passages: Passage[] = [];
+
+  for (const doc of documents) {
+    for (const paragraph of doc.content.split(/\n\s*\n/)) {
+      let text = paragraph.trim();
+      while (text.length > MAX_PASSAGE_CHARS) {
+        const cut = text.lastIndexOf('. ', MAX_PASSAGE_CHARS);
+        const end = cut > MAX_PASSAGE_CHARS / 2 ? cut + 1 : MAX_PASSAGE_CHARS;
+        passages.push({ documentId: doc.id, title: doc.title, text: text.slice(0, end).trim() });
+        text = text.slice(end).trim();
+      }
+      if (text) {
+        passages.push({ documentId: doc.id, title: doc.title, text });
+      }
+    }
+  }
+
+  return passages;
+}
+
+/**
+ * Rank passages of the documents for a query
+ */
+export function searchDocuments(
+  documents: JurorDocument[],
+  query: string,
+  limit = DEFAULT_RESULTS
+): Array<Passage & { score: number }> {
+  const passages = toPassages(documents);
+  const tfidf = new natural.TfIdf();
+  for (const passage of passages) {
+    tfidf.addDocument(passage.text.toLowerCase());
+  }
+
+  const scores: number[] = [];
+  tfidf.tfidfs(query.toLowerCase(), (index, measure) => {
+    scores[index] = measure;
+  });
+
+  return passages
+    .map((passage, index) => ({ ...passage, score: scores[index] ?? 0 }))
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export const documentSearchTool: JuryTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'search_documents',
+      description:
+        'Search the documents provided with the question and return the most relevant passages. ' +
+        'Use it to ground the answer in those documents; cite the document id.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords or a question to look up' },
+          limit: { type: 'integer', description: `Passages to return (default ${DEFAULT_RESULTS}, max ${MAX_RESULTS})` },
+        },
+        required: ['query'],
+      },
+    },
+  },
+
+  // Only offered when the caller sent documents
+  isAvailable: context => context.documents.length > 0,
+
+  execute(args, context) {
+    if (typeof args.query !== 'string' || !args.query.trim()) {
+      throw new Error('"query" must be a non-empty string');
+    }
+    const limit = typeof args.limit === 'number'
+      ? Math.min(Math.max(Math.floor(args.limit), 1), MAX_RESULTS)
+      : DEFAULT_RESULTS;
+
+    const results = searchDocuments(context.documents, args.query, limit);
+    if (results.length === 0) {
+      return 'No matching passages found.';
+    }
+
+    return results
+      .map(r => `[${r.documentId}${r.title ? ` - ${r.title}` : ''}]\n${r.text}`)
+      .join('\n\n---\n\n');
+  },
+};
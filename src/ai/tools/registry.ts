@@ -0,0 +1,242 @@
+/**
+ * Jury Tools
+ *
+ * Built-in local tools jurors may call before answering, and the
+ * tool-calling loop around a juror's chat call:
+ *
+ * 1. The juror is offered the tool definitions (tool_choice "auto")
+ * 2. Requested calls run locally and their results are sent back as tool messages
+ * 3. Repeats until the juror answers in text, at most JURY_TOOL_MAX_ROUNDS times;
+ *    the last round disables tools so the juror must answer
+ *
+ * Built-in tools:
+ * - calculator: Arithmetic (12 significant digits)
+ * - convert_units: Length, mass, volume, time, speed, energy, data, temperature
+ * - search_documents: Passage lookup over the documents sent with the query
+ *
+ * Tools run in-process and never reach the network. Every call is recorded
+ * (arguments, result or error, latency) in the juror's response.
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ChatOptions,
+  ChatProvider,
+  ToolCall,
+  ToolDefinition,
+} from '../model-router.js';
+import { calculatorTool } from './calculator.js';
+import { unitConverterTool } from './units.js';
+import { documentSearchTool } from './documents.js';
+
+/**
+ * Document sent with a query for the search_documents tool
+ */
+export interface JurorDocument {
+  id: string;
+  title?: string;
+  content: string;
+}
+
+/**
+ * Per-query data the tools work on
+ */
+export interface ToolContext {
+  documents: JurorDocument[];
+}
+
+export interface JuryTool {
+  definition: ToolDefinition;
+  /** Offer the tool for this query (default: always) */
+  isAvailable?: (context: ToolContext) => boolean;
+  /** Run the call; thrown errors are reported back to the juror */
+  execute(args: Record<string, unknown>, context: ToolContext): string | Promise<string>;
+}
+
+/**
+ * One tool call made by a juror
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  /** Parsed arguments (the raw string when they were not valid JSON) */
+  arguments: unknown;
+  result?: string;
+  error?: string;
+  latencyMs: number;
+  /** Tool round the call was made in (1-based) */
+  round: number;
+}
+
+export interface ToolLoopResult {
+  /** The juror's final (text) response */
+  response: ChatCompletionResponse;
+  /** Every router call of the loop, in order */
+  responses: ChatCompletionResponse[];
+  toolCalls: ToolCallRecord[];
+}
+
+// Tool output sent back to the model is cut at this length
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+const DEFAULT_MAX_TOOL_ROUNDS = 3;
+
+const BUILT_IN_TOOLS: JuryTool[] = [calculatorTool, unitConverterTool, documentSearchTool];
+
+/**
+ * Appended to the juror system prompt when tools are offered
+ */
+export const JURY_TOOLS_PROMPT = `You can call tools before answering: use the calculator for arithmetic, convert_units for unit conversions and search_documents (when available) to look up the documents provided with the question. Prefer tool results over your own estimates. When you are done, give your final answer as text.`;
+
+/**
+ * Names of the built-in tools
+ */
+export function getBuiltInToolNames(): string[] {
+  return BUILT_IN_TOOLS.map(tool => tool.definition.function.name);
+}
+
+export function isBuiltInTool(name: string): boolean {
+  return BUILT_IN_TOOLS.some(tool => tool.definition.function.name === name);
+}
+
+/**
+ * Built-in tools by name, minus those unavailable for this query
+ * (e.g. search_documents without documents)
+ */
+export function resolveJuryTools(names: string[], context: ToolContext): JuryTool[] {
+  return BUILT_IN_TOOLS.filter(
+    tool =>
+      names.includes(tool.definition.function.name) &&
+      (tool.isAvailable?.(context) ?? true)
+  );
+}
+
+/**
+ * Run one tool call and build the tool message answering it
+ */
+export async function executeToolCall(
+  call: ToolCall,
+  tools: JuryTool[],
+  context: ToolContext,
+  round: number
+): Promise<{ record: ToolCallRecord; message: ChatMessage }> {
+  const startTime = Date.now();
+  const record: ToolCallRecord = {
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments,
+    latencyMs: 0,
+    round,
+  };
+
+  try {
+    const tool = tools.find(t => t.definition.function.name === call.function.name);
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.function.name}"`);
+    }
+
+    let args: unknown;
+    try {
+      args = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      throw new Error('Arguments are not valid JSON');
+    }
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+    record.arguments = args;
+
+    const result = await tool.execute(args as Record<string, unknown>, context);
+    record.result = result.length > MAX_TOOL_RESULT_CHARS
+      ? `${result.slice(0, MAX_TOOL_RESULT_CHARS)}\n[... truncated]`
+      : result;
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error);
+  }
+
+  record.latencyMs = Date.now() - startTime;
+
+  return {
+    record,
+    message: {
+      role: 'tool',
+      tool_call_id: call.id,
+      content: record.error ? `Error: ${record.error}` : record.result!,
+    },
+  };
+}
+
+/**
+ * Chat with tools: run the juror's tool calls until it answers in text
+ */
+export async function chatWithTools(params: {
+  provider: ChatProvider;
+  request: ChatCompletionRequest;
+  options: ChatOptions;
+  tools: JuryTool[];
+  context: ToolContext;
+  maxRounds?: number;
+}): Promise<ToolLoopResult> {
+  const { provider, request, options, tools, context, maxRounds = getMaxToolRounds() } = params;
+  const definitions = tools.map(tool => tool.definition);
+  const messages = [...request.messages];
+  const responses: ChatCompletionResponse[] = [];
+  const toolCalls: ToolCallRecord[] = [];
+
+  for (let round = 1; ; round++) {
+    // Out of rounds - the juror has to answer with what it has
+    const lastRound = round > maxRounds;
+    const response = await provider.chat(
+      { ...request, messages, tools: definitions, tool_choice: lastRound ? 'none' : 'auto' },
+      options
+    );
+    responses.push(response);
+
+    const message = response.choices[0]?.message;
+    const calls = message?.tool_calls ?? [];
+    if (calls.length === 0 || lastRound) {
+      if (calls.length > 0) {
+        console.warn(`[JuryTools] ${request.model} still called tools after ${maxRounds} rounds`);
+      }
+      return { response, responses, toolCalls };
+    }
+
+    messages.push({ role: 'assistant', content: message.content ?? '', tool_calls: calls });
+    for (const call of calls) {
+      const { record, message: toolMessage } = await executeToolCall(call, tools, context, round);
+      toolCalls.push(record);
+      messages.push(toolMessage);
+    }
+    console.log(
+      `[JuryTools] ${request.model} round ${round}: ${calls.map(c => c.function.name).join(', ')}`
+    );
+  }
+}
+
+/**
+ * Check if juror tools are enabled by default via environment variable
+ */
+export function isJuryToolsEnabled(): boolean {
+  return process.env.ENABLE_JURY_TOOLS === 'true';
+}
+
+/**
+ * Tools offered when the request does not choose (JURY_TOOLS, default: all built-ins)
+ */
+export function getDefaultJuryTools(): string[] {
+  const names = (process.env.JURY_TOOLS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(isBuiltInTool);
+  return names.length > 0 ? names : getBuiltInToolNames();
+}
+
+/**
+ * Maximum tool rounds per juror (JURY_TOOL_MAX_ROUNDS)
+ */
+export function getMaxToolRounds(): number {
+  const rounds = parseInt(process.env.JURY_TOOL_MAX_ROUNDS || '', 10);
+  return Number.isNaN(rounds) || rounds < 1 ? DEFAULT_MAX_TOOL_ROUNDS : rounds;
+}
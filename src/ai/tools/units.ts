@@ -0,0 +1,168 @@
+/**
+ * Unit Converter Tool
+ *
+ * Converts values between units of length, mass, volume, time, speed,
+ * energy, data size and temperature. Linear units are stored as a factor
+ * to the category's base unit; temperature scales are converted through
+ * Kelvin.
+ */
+
+import type { JuryTool } from './registry.js';
+
+type UnitCategory = 'length' | 'mass' | 'volume' | 'time' | 'speed' | 'energy' | 'data' | 'temperature';
+
+interface UnitDefinition {
+  category: UnitCategory;
+  /** Value of one unit in the category's base unit (unused for temperature) */
+  factor: number;
+  aliases: string[];
+}
+
+// Base units: m, kg, l, s, m/s, J, byte, K
+const UNITS: Record<string, UnitDefinition> = {
+  mm: { category: 'length', factor: 0.001, aliases: ['millimeter', 'millimetre'] },
+  cm: { category: 'length', factor: 0.01, aliases: ['centimeter', 'centimetre'] },
+  m: { category: 'length', factor: 1, aliases: ['meter', 'metre'] },
+  km: { category: 'length', factor: 1000, aliases: ['kilometer', 'kilometre'] },
+  in: { category: 'length', factor: 0.0254, aliases: ['inch', 'inches'] },
+  ft: { category: 'length', factor: 0.3048, aliases: ['foot', 'feet'] },
+  yd: { category: 'length', factor: 0.9144, aliases: ['yard'] },
+  mi: { category: 'length', factor: 1609.344, aliases: ['mile'] },
+  nmi: { category: 'length', factor: 1852, aliases: ['nautical mile'] },
+
+  mg: { category: 'mass', factor: 1e-6, aliases: ['milligram'] },
+  g: { category: 'mass', factor: 0.001, aliases: ['gram'] },
+  kg: { category: 'mass', factor: 1, aliases: ['kilogram', 'kilo'] },
+  t: { category: 'mass', factor: 1000, aliases: ['tonne', 'metric ton'] },
+  oz: { category: 'mass', factor: 0.028349523125, aliases: ['ounce'] },
+  lb: { category: 'mass', factor: 0.45359237, aliases: ['lbs', 'pound'] },
+  st: { category: 'mass', factor: 6.35029318, aliases: ['stone'] },
+
+  ml: { category: 'volume', factor: 0.001, aliases: ['milliliter', 'millilitre'] },
+  l: { category: 'volume', factor: 1, aliases: ['liter', 'litre'] },
+  m3: { category: 'volume', factor: 1000, aliases: ['cubic meter', 'cubic metre'] },
+  tsp: { category: 'volume', factor: 0.00492892159375, aliases: ['teaspoon'] },
+  tbsp: { category: 'volume', factor: 0.01478676478125, aliases: ['tablespoon'] },
+  floz: { category: 'volume', factor: 0.0295735295625, aliases: ['fl oz', 'fluid ounce'] },
+  cup: { category: 'volume', factor: 0.2365882365, aliases: [] },
+  pt: { category: 'volume', factor: 0.473176473, aliases: ['pint'] },
+  qt: { category: 'volume', factor: 0.946352946, aliases: ['quart'] },
+  gal: { category: 'volume', factor: 3.785411784, aliases: ['gallon'] },
+
+  ms: { category: 'time', factor: 0.001, aliases: ['millisecond'] },
+  s: { category: 'time', factor: 1, aliases: ['sec', 'second'] },
+  min: { category: 'time', factor: 60, aliases: ['minute'] },
+  h: { category: 'time', factor: 3600, aliases: ['hr', 'hour'] },
+  day: { category: 'time', factor: 86400, aliases: ['d'] },
+  week: { category: 'time', factor: 604800, aliases: ['wk'] },
+  year: { category: 'time', factor: 31557600, aliases: ['yr'] }, // Julian year
+
+  'm/s': { category: 'speed', factor: 1, aliases: ['meters per second'] },
+  'km/h': { category: 'speed', factor: 1 / 3.6, aliases: ['kph', 'kmh', 'kilometers per hour'] },
+  mph: { category: 'speed', factor: 0.44704, aliases: ['miles per hour'] },
+  kn: { category: 'speed', factor: 1852 / 3600, aliases: ['knot', 'kt'] },
+
+  j: { category: 'energy', factor: 1, aliases: ['joule'] },
+  kj: { category: 'energy', factor: 1000, aliases: ['kilojoule'] },
+  cal: { category: 'energy', factor: 4.184, aliases: ['calorie'] },
+  kcal: { category: 'energy', factor: 4184, aliases: ['kilocalorie'] },
+  wh: { category: 'energy', factor: 3600, aliases: ['watt hour'] },
+  kwh: { category: 'energy', factor: 3.6e6, aliases: ['kilowatt hour'] },
+
+  bit: { category: 'data', factor: 0.125, aliases: [] },
+  b: { category: 'data', factor: 1, aliases: ['byte'] },
+  kb: { category: 'data', factor: 1e3, aliases: ['kilobyte'] },
+  mb: { category: 'data', factor: 1e6, aliases: ['megabyte'] },
+  gb: { category: 'data', factor: 1e9, aliases: ['gigabyte'] },
+  tb: { category: 'data', factor: 1e12, aliases: ['terabyte'] },
+  kib: { category: 'data', factor: 1024, aliases: ['kibibyte'] },
+  mib: { category: 'data', factor: 1024 ** 2, aliases: ['mebibyte'] },
+  gib: { category: 'data', factor: 1024 ** 3, aliases: ['gibibyte'] },
+
+  c: { category: 'temperature', factor: 1, aliases: ['°c', 'celsius'] },
+  f: { category: 'temperature', factor: 1, aliases: ['°f', 'fahrenheit'] },
+  k: { category: 'temperature', factor: 1, aliases: ['kelvin'] },
+};
+
+// Lower-cased unit names and aliases (plus plural aliases) to unit keys
+const UNIT_LOOKUP = new Map<string, string>();
+for (const [key, unit] of Object.entries(UNITS)) {
+  UNIT_LOOKUP.set(key, key);
+  for (const alias of unit.aliases) {
+    UNIT_LOOKUP.set(alias, key);
+    if (alias.length > 3 && !alias.endsWith('s')) UNIT_LOOKUP.set(`${alias}s`, key);
+  }
+}
+
+function findUnit(name: string): string {
+  const key = UNIT_LOOKUP.get(name.trim().toLowerCase().replace(/\s+/g, ' '));
+  if (!key) throw new Error(`Unknown unit "${name}"`);
+  return key;
+}
+
+function toKelvin(value: number, unit: string): number {
+  if (unit === 'c') return value + 273.15;
+  if (unit === 'f') return (value - 32) * 5 / 9 + 273.15;
+  return value;
+}
+
+function fromKelvin(value: number, unit: string): number {
+  if (unit === 'c') return value - 273.15;
+  if (unit === 'f') return (value - 273.15) * 9 / 5 + 32;
+  return value;
+}
+
+/**
+ * Convert a value between two units of the same category
+ *
+ * @throws Error for unknown units or units of different categories
+ */
+export function convertUnits(value: number, from: string, to: string): number {
+  const fromKey = findUnit(from);
+  const toKey = findUnit(to);
+  const fromUnit = UNITS[fromKey];
+  const toUnit = UNITS[toKey];
+
+  if (fromUnit.category !== toUnit.category) {
+    throw new Error(`Cannot convert ${fromUnit.category} (${from}) to ${toUnit.category} (${to})`);
+  }
+
+  if (fromUnit.category === 'temperature') {
+    return fromKelvin(toKelvin(value, fromKey), toKey);
+  }
+  return (value * fromUnit.factor) / toUnit.factor;
+}
+
+export const unitConverterTool: JuryTool = {
+  definition: {
+    type: 'function',
+    function: {
+      name: 'convert_units',
+      description:
+        'Convert a value between units of length, mass, volume, time, speed, energy, data size or ' +
+        'temperature, e.g. 5 mi to km, 100 F to C, 2 GiB to MB.',
+      parameters: {
+        type: 'object',
+        properties: {
+          value: { type: 'number', description: 'Value to convert' },
+          from: { type: 'string', description: 'Unit of the value, e.g. "mi", "lb", "F", "GiB"' },
+          to: { type: 'string', description: 'Target unit, e.g. "km", "kg", "C", "MB"' },
+        },
+        required: ['value', 'from', 'to'],
+      },
+    },
+  },
+
+  execute(args) {
+    const value = typeof args.value === 'string' ? parseFloat(args.value) : args.value;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error('"value" must be a number');
+    }
+    if (typeof args.from !== 'string' || typeof args.to !== 'string') {
+      throw new Error('"from" and "to" must be unit names');
+    }
+
+    const result = parseFloat(convertUnits(value, args.from, args.to).toPrecision(10));
+    return `${value} ${args.from} = ${result} ${args.to}`;
+  },
+};
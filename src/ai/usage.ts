@@ -0,0 +1,163 @@
+/**
+ * Usage Accounting
+ *
+ * The Model Router bills per call. Token usage comes back in the response
+ * body and cost, provider and cache status in the PAP headers. This module
+ * turns both into per-call usage records and per-query totals, so spend
+ * can be attributed to jurors, pipeline stages and models.
+ */
+
+import type { CacheSource, PAPMetadata, UsageInfo } from './model-router.js';
+import { getMetrics } from '../pap/metrics.js';
+
+/**
+ * Usage of a single router call
+ */
+export interface CallUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  provider: string;
+  cached: boolean;
+  /** Cache that answered the call (set when cached) */
+  cacheSource?: CacheSource;
+}
+
+/**
+ * Pipeline stage that made a router call
+ */
+export type UsageStage =
+  | 'juror'
+  | 'deliberation'
+  | 'synthesis'
+  | 'claims'
+  | 'similarity'
+  | 'reflection'
+  | 'moderation';
+
+export interface UsageEntry extends CallUsage {
+  stage: UsageStage;
+  model: string;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  calls: number;
+  cachedCalls: number;
+  /** Cached calls split by cache (local response cache or router cache) */
+  cachedBySource: Record<CacheSource, number>;
+}
+
+export interface QueryUsage {
+  totals: UsageTotals;
+  byStage: Partial<Record<UsageStage, UsageTotals>>;
+  byModel: Record<string, UsageTotals>;
+  calls: UsageEntry[];
+}
+
+/**
+ * Build a usage record from a router response
+ */
+export function toCallUsage(response: {
+  usage?: Partial<UsageInfo> | null;
+  pap_metadata: PAPMetadata;
+}): CallUsage {
+  const promptTokens = response.usage?.prompt_tokens ?? 0;
+  const completionTokens = response.usage?.completion_tokens ?? 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: response.usage?.total_tokens ?? promptTokens + completionTokens,
+    costUsd: response.pap_metadata.cost_usd,
+    provider: response.pap_metadata.provider,
+    cached: response.pap_metadata.cached,
+    cacheSource: response.pap_metadata.cached ? response.pap_metadata.cache_source : undefined,
+  };
+}
+
+/**
+ * Combine the usage of several calls made for one juror (e.g. tool rounds)
+ */
+export function sumCallUsage(calls: CallUsage[]): CallUsage | undefined {
+  if (calls.length === 0) return undefined;
+
+  return calls.reduce((sum, call) => ({
+    promptTokens: sum.promptTokens + call.promptTokens,
+    completionTokens: sum.completionTokens + call.completionTokens,
+    totalTokens: sum.totalTokens + call.totalTokens,
+    costUsd: Math.round((sum.costUsd + call.costUsd) * 1e6) / 1e6,
+    provider: sum.provider,
+    cached: sum.cached && call.cached,
+    // Only reported when every call came from the same cache
+    cacheSource: sum.cacheSource === call.cacheSource ? sum.cacheSource : undefined,
+  }));
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    calls: 0,
+    cachedCalls: 0,
+    cachedBySource: { local: 0, router: 0 },
+  };
+}
+
+function addToTotals(totals: UsageTotals, usage: CallUsage): void {
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  // Round to micro-dollars to avoid floating point drift in reports
+  totals.costUsd = Math.round((totals.costUsd + usage.costUsd) * 1e6) / 1e6;
+  totals.calls++;
+  if (usage.cached) totals.cachedCalls++;
+  if (usage.cached && usage.cacheSource) totals.cachedBySource[usage.cacheSource]++;
+}
+
+/**
+ * Collects the router calls made for one jury query
+ */
+export class UsageLedger {
+  private entries: UsageEntry[] = [];
+
+  /**
+   * Record a call (also fed into the metrics cost counters)
+   */
+  record(stage: UsageStage, model: string, usage: CallUsage | undefined): void {
+    if (!usage) return;
+
+    this.entries.push({ stage, model, ...usage });
+
+    getMetrics()?.recordUsage({
+      model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUsd: usage.costUsd,
+      cacheSource: usage.cached ? usage.cacheSource : undefined,
+    });
+  }
+
+  /**
+   * Per-query totals, broken down by stage and model
+   */
+  summarize(): QueryUsage {
+    const totals = emptyTotals();
+    const byStage: Partial<Record<UsageStage, UsageTotals>> = {};
+    const byModel: Record<string, UsageTotals> = {};
+
+    for (const entry of this.entries) {
+      addToTotals(totals, entry);
+      addToTotals((byStage[entry.stage] ??= emptyTotals()), entry);
+      addToTotals((byModel[entry.model] ??= emptyTotals()), entry);
+    }
+
+    return { totals, byStage, byModel, calls: [...this.entries] };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Verdict Store
+ *
+ * Keeps recent verdict reports in memory so they can be fetched by id.
+ * With a quorum and the 'background' straggler policy, jurors that finish
+ * after the verdict was returned are attached to the stored report.
+ */
+
+import type { ModelResponse } from './consensus.js';
+import type { VerdictReport, VerdictResponse } from './verdict.js';
+
+// Oldest reports are evicted beyond this many
+const MAX_STORED_VERDICTS = 1000;
+
+const verdicts = new Map<string, VerdictReport>();
+
+/**
+ * Store a verdict report (evicts the oldest beyond the limit)
+ */
+export function saveVerdict(report: VerdictReport): void {
+  verdicts.set(report.id, report);
+
+  while (verdicts.size > MAX_STORED_VERDICTS) {
+    const oldest = verdicts.keys().next().value;
+    if (oldest === undefined) break;
+    verdicts.delete(oldest);
+  }
+}
+
+/**
+ * Get a stored verdict report by id
+ */
+export function getVerdict(id: string): VerdictReport | undefined {
+  return verdicts.get(id);
+}
+
+/**
+ * Attach a straggler's late answer to a stored verdict
+ * The verdict itself is not recomputed
+ */
+export function attachLateResponse(id: string, response: ModelResponse): boolean {
+  const report = verdicts.get(id);
+  if (!report) return false;
+
+  report.pendingModels = report.pendingModels.filter(m => m !== response.model);
+
+  if (response.success) {
+    const late: VerdictResponse = {
+      model: response.model,
+      answer: response.answer,
+      reasoning: response.reasoning,
+      structuredAnswer: response.structuredAnswer,
+    };
+    report.lateResponses.push(late);
+  } else {
+    report.failedModels.push(response.model);
+  }
+
+  console.log(`[VerdictStore] Attached late response from ${response.model} to verdict ${id}`);
+  return true;
+}
+
+/**
+ * Create a late-response handler for a jury query
+ *
+ * Stragglers can finish before the report id exists; their responses are
+ * buffered until `bind` is called with the stored report's id.
+ */
+export function createLateResponseHandler(): {
+  onLateResponse: (response: ModelResponse) => void;
+  bind: (reportId: string) => void;
+} {
+  let reportId: string | undefined;
+  const buffered: ModelResponse[] = [];
+
+  return {
+    onLateResponse: (response) => {
+      if (reportId) {
+        attachLateResponse(reportId, response);
+      } else {
+        buffered.push(response);
+      }
+    },
+    bind: (id) => {
+      reportId = id;
+      for (const response of buffered.splice(0)) {
+        attachLateResponse(id, response);
+      }
+    },
+  };
+}
@@ -11,11 +11,34 @@ import {
   VerdictType,
   ConfidenceLevel,
 } from './consensus.js';
+import type { ClaimConsensus } from './claims.js';
+import { formatTally } from './factions.js';
+import type { JurorPosition } from './deliberation.js';
+import type { SynthesizedSentence } from './synthesis.js';
+import type { StructuredConsensus } from './structured.js';
+import type { CallUsage, QueryUsage } from './usage.js';
+import type { CacheSource } from './model-router.js';
+import type { PromptFit } from './prompt-fitting.js';
+import type { ToolCallRecord } from './tools/registry.js';
+import type { QueryInterruption } from './cancellation.js';
+import type { ModerationOutcome } from './moderation.js';
 
 export interface VerdictResponse {
   model: string;
   answer: string;
   reasoning?: string;
+  structuredAnswer?: unknown;
+  // Original juror this model stood in for (circuit open)
+  substituteFor?: string;
+  usage?: CallUsage;
+  // Cache that answered the juror (local response cache or router cache)
+  cacheSource?: CacheSource;
+  // Set when memory or context was trimmed to fit the model's context window
+  promptFit?: PromptFit;
+  // Tools the juror called before answering
+  toolCalls?: ToolCallRecord[];
+  // Concerns when output moderation flagged the answer (annotate policy)
+  moderationFlag?: string;
 }
 
 export interface VerdictDissent {
@@ -24,6 +47,26 @@ export interface VerdictDissent {
   reasoning?: string;
 }
 
+export interface VerdictFaction {
+  members: string[];
+  size: number;
+  representativeModel: string;
+  representativeAnswer: string;
+}
+
+export interface VerdictDeliberation {
+  roundsCompleted: number;
+  agreementByRound: number[];
+  changedMinds: string[];
+  converged: boolean;
+  jurors: Array<{
+    model: string;
+    changedMind: boolean;
+    // promptFit is set for rounds whose prompt was trimmed to fit the context window
+    answers: Array<{ round: number; answer: string; position: JurorPosition; promptFit?: PromptFit }>;
+  }>;
+}
+
 export interface VerdictReport {
   id: string;
   question: string;
@@ -37,14 +80,55 @@ export interface VerdictReport {
   // Consensus answer (majority view)
   consensusAnswer: string | null;
 
+  // Single most central juror answer, for comparison with the synthesized answer
+  medoidAnswer: string | null;
+
+  // Per-sentence juror support (if the consensus answer was synthesized)
+  synthesis: { model: string; sentences: SynthesizedSentence[] } | null;
+
   // Dissenting opinion (if split verdict)
   dissent: VerdictDissent | null;
 
+  // Factions of agreeing models (largest first) and vote tally, e.g. "3-1-1"
+  factions: VerdictFaction[];
+  voteTally: string;
+
+  // Round-by-round positions (if deliberation ran)
+  deliberation: VerdictDeliberation | null;
+
+  // Vote distribution or numeric spread (structured answer types only)
+  structured: StructuredConsensus | null;
+
+  // Per-claim agreement (if claim-level consensus ran)
+  claims: ClaimConsensus[] | null;
+  // Jurors whose claims could not be extracted (not counted in claim support)
+  claimExtractionFailed: string[];
+
+  // Tokens and cost of the query (totals, per stage, per model)
+  usage: QueryUsage | null;
+
+  // Pre-flight cost estimate and the original jury if the budget downgraded it
+  budget: { estimatedCostUsd: number; downgradedFrom: string[] | null } | null;
+
   // Metadata
   timestamp: string;
+  // Named jury panel (if the query chose one)
+  panel: string | null;
   modelsQueried: string[];
   successfulModels: string[];
   failedModels: string[];
+  similarityBackend: string | null;
+
+  // Jurors still pending when the quorum was reached, and answers that
+  // arrived after the verdict (background straggler policy)
+  pendingModels: string[];
+  lateResponses: VerdictResponse[];
+
+  // Stage a deadline or the caller cut short (later stages were skipped)
+  partial: QueryInterruption | null;
+
+  // Output moderation checks and what the policy did (if moderation ran)
+  moderation: ModerationOutcome | null;
 
   // For social sharing
   shareableUrl: string;
@@ -57,15 +141,19 @@ function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + '...';
 }
 
-// Generate verdict emoji based on result
-function getVerdictEmoji(verdict: VerdictType): string {
+// Generate verdict emoji based on result (one mark per model, e.g. ✓✓✓✗✗ for 3-2)
+function getVerdictEmoji(verdict: VerdictType, factions: VerdictFaction[]): string {
+  const modelCount = factions.reduce((sum, f) => sum + f.size, 0) || 3;
+  const agreeing = factions[0]?.size ?? 0;
+
   switch (verdict) {
     case 'unanimous':
-      return '✓✓✓'; // All agree
+      return '✓'.repeat(modelCount); // All agree
     case 'split':
-      return '✓✓✗'; // 2-1 split
+    case 'plurality':
+      return '✓'.repeat(agreeing) + '✗'.repeat(modelCount - agreeing); // Largest faction vs the rest
     case 'no_consensus':
-      return '✗✗✗'; // No agreement
+      return '✗'.repeat(modelCount); // No agreement
   }
 }
 
@@ -85,16 +173,23 @@ function getConfidenceBadge(confidence: ConfidenceLevel): string {
 function getVerdictDescription(
   verdict: VerdictType,
   agreementScore: number,
-  models: string[]
+  models: string[],
+  factions: VerdictFaction[]
 ): string {
   const score = Math.round(agreementScore * 100);
   const modelCount = models.length;
+  const agreeing = factions[0]?.size ?? 0;
 
   switch (verdict) {
     case 'unanimous':
       return `All ${modelCount} AI models agree (${score}% consensus)`;
     case 'split':
-      return `${modelCount - 1} of ${modelCount} AI models agree (${score}% consensus)`;
+      if (agreeing === modelCount) {
+        return `All ${modelCount} AI models broadly agree (${score}% consensus)`;
+      }
+      return `${agreeing} of ${modelCount} AI models agree (${score}% consensus)`;
+    case 'plurality':
+      return `${agreeing} of ${modelCount} AI models agree, no majority (${formatTally(factions)} split)`;
     case 'no_consensus':
       return `AI models disagree significantly (${score}% agreement)`;
   }
@@ -117,7 +212,10 @@ export function formatVerdict(
     .filter(r => r.success)
     .map(r => r.model);
   const failedModels = result.responses
-    .filter(r => !r.success)
+    .filter(r => !r.success && !r.straggler)
+    .map(r => r.model);
+  const pendingModels = result.responses
+    .filter(r => r.straggler)
     .map(r => r.model);
 
   // Format individual responses
@@ -127,6 +225,13 @@ export function formatVerdict(
       model: r.model,
       answer: r.answer,
       reasoning: r.reasoning,
+      structuredAnswer: r.structuredAnswer,
+      substituteFor: r.substituteFor,
+      usage: r.usage,
+      cacheSource: r.cacheSource,
+      promptFit: r.promptFit?.strategy !== 'fits' ? r.promptFit : undefined,
+      toolCalls: r.toolCalls,
+      moderationFlag: r.moderationFlag,
     }));
 
   // Format dissent if present
@@ -138,12 +243,41 @@ export function formatVerdict(
       }
     : null;
 
+  // Format deliberation if present
+  const deliberation: VerdictDeliberation | null = result.deliberation
+    ? {
+        roundsCompleted: result.deliberation.rounds.length - 1,
+        agreementByRound: result.deliberation.rounds.map(r => r.agreementScore),
+        changedMinds: result.deliberation.changedMinds,
+        converged: result.deliberation.converged,
+        jurors: result.deliberation.jurors.map(j => ({
+          model: j.model,
+          changedMind: j.changedMind,
+          answers: j.rounds.map(r => ({
+            round: r.round,
+            answer: r.answer,
+            position: r.position,
+            promptFit: r.promptFit?.strategy !== 'fits' ? r.promptFit : undefined,
+          })),
+        })),
+      }
+    : null;
+
+  // Format factions
+  const factions: VerdictFaction[] = (result.factions ?? []).map(f => ({
+    members: f.members,
+    size: f.size,
+    representativeModel: f.representativeModel,
+    representativeAnswer: f.representativeAnswer,
+  }));
+
   // Generate summary for social sharing
-  const verdictEmoji = getVerdictEmoji(result.verdict);
+  const verdictEmoji = getVerdictEmoji(result.verdict, factions);
   const summary = `${verdictEmoji} ${getVerdictDescription(
     result.verdict,
     result.agreementScore,
-    successfulModels
+    successfulModels,
+    factions
   )}`;
 
   return {
@@ -154,11 +288,29 @@ export function formatVerdict(
     agreementScore: result.agreementScore,
     responses,
     consensusAnswer: result.consensusAnswer || null,
+    medoidAnswer: result.medoidAnswer || null,
+    synthesis: result.synthesis
+      ? { model: result.synthesis.model, sentences: result.synthesis.sentences }
+      : null,
     dissent,
+    factions,
+    voteTally: formatTally(factions),
+    deliberation,
+    structured: result.structured ?? null,
+    claims: result.claims ?? null,
+    claimExtractionFailed: result.claimExtractionFailed ?? [],
+    usage: result.usage ?? null,
+    budget: result.budget ?? null,
     timestamp,
+    panel: result.panel ?? null,
     modelsQueried,
     successfulModels,
     failedModels,
+    similarityBackend: result.similarityBackend ?? null,
+    pendingModels,
+    lateResponses: [],
+    partial: result.partial ?? null,
+    moderation: result.moderation ?? null,
     shareableUrl: `${baseUrl}/v/${id}`,
     summary,
   };
@@ -168,7 +320,7 @@ export function formatVerdict(
  * Generate a Twitter-optimized summary (max 280 chars)
  */
 export function formatForTwitter(report: VerdictReport): string {
-  const emoji = getVerdictEmoji(report.verdict);
+  const emoji = getVerdictEmoji(report.verdict, report.factions);
   const scorePercent = Math.round(report.agreementScore * 100);
 
   let tweet = `${emoji} AI Jury Verdict: `;
@@ -176,7 +328,9 @@ export function formatForTwitter(report: VerdictReport): string {
   if (report.verdict === 'unanimous') {
     tweet += `UNANIMOUS (${scorePercent}% agreement)\n\n`;
   } else if (report.verdict === 'split') {
-    tweet += `SPLIT ${report.successfulModels.length - 1}-1 (${scorePercent}%)\n\n`;
+    tweet += `SPLIT ${report.voteTally} (${scorePercent}%)\n\n`;
+  } else if (report.verdict === 'plurality') {
+    tweet += `PLURALITY ${report.voteTally} (${scorePercent}%)\n\n`;
   } else {
     tweet += `NO CONSENSUS (${scorePercent}%)\n\n`;
   }
@@ -203,7 +357,7 @@ export function formatForTwitter(report: VerdictReport): string {
  * Generate a detailed Markdown report
  */
 export function formatAsMarkdown(report: VerdictReport): string {
-  const emoji = getVerdictEmoji(report.verdict);
+  const emoji = getVerdictEmoji(report.verdict, report.factions);
   const badge = getConfidenceBadge(report.confidence);
 
   let md = `# ${emoji} AI Jury Verdict\n\n`;
@@ -216,11 +370,125 @@ export function formatAsMarkdown(report: VerdictReport): string {
     md += `## Consensus Answer\n\n${report.consensusAnswer}\n\n`;
   }
 
+  // Vote distribution / numeric spread for structured answers
+  if (report.structured?.distribution) {
+    md += `## Vote Distribution\n\n`;
+    md += `| Answer | Votes | Models |\n|--------|-------|--------|\n`;
+    for (const vote of report.structured.distribution) {
+      md += `| ${vote.label} | ${vote.count} (${Math.round(vote.share * 100)}%) | ${vote.models.join(', ')} |\n`;
+    }
+    md += `\n`;
+  }
+
+  if (report.structured?.numeric) {
+    const { median, q1, q3, iqr, min, max, unit } = report.structured.numeric;
+    const u = unit ? ` ${unit}` : '';
+    md += `## Numeric Spread\n\n`;
+    md += `**Median**: ${median}${u} | **IQR**: ${q1}${u} – ${q3}${u} (${iqr}${u}) | **Range**: ${min}${u} – ${max}${u}\n\n`;
+  }
+
+  if (report.structured && report.structured.invalidModels.length > 0) {
+    md += `**Invalid answers**: ${report.structured.invalidModels.join(', ')}\n\n`;
+  }
+
+  // Sentence-level support for synthesized answers
+  if (report.synthesis) {
+    md += `### Juror Support\n\n`;
+    for (const sentence of report.synthesis.sentences) {
+      const supporters = sentence.supportingModels.length > 0
+        ? sentence.supportingModels.join(', ')
+        : 'unattributed';
+      md += `- ${sentence.text} _(${supporters})_\n`;
+    }
+    md += `\n`;
+  }
+
+  // Factions (only interesting when the jury did not agree as one block)
+  if (report.factions.length > 1) {
+    md += `## Factions (${report.voteTally})\n\n`;
+    report.factions.forEach((faction, i) => {
+      md += `${i + 1}. **${faction.size} model${faction.size === 1 ? '' : 's'}**: ${faction.members.join(', ')}`;
+      md += ` _(representative: ${faction.representativeModel})_\n`;
+    });
+    md += `\n`;
+  }
+
+  // Deliberation summary
+  if (report.deliberation) {
+    const { deliberation } = report;
+    md += `## Deliberation\n\n`;
+    md += `**Rounds**: ${deliberation.roundsCompleted} | `;
+    md += `**Agreement by round**: ${deliberation.agreementByRound.map(s => `${Math.round(s * 100)}%`).join(' → ')} | `;
+    md += `**Converged**: ${deliberation.converged ? 'yes' : 'no'}\n\n`;
+
+    if (deliberation.changedMinds.length > 0) {
+      md += `Changed their mind: ${deliberation.changedMinds.join(', ')}\n\n`;
+    } else {
+      md += `No juror changed their mind.\n\n`;
+    }
+
+    const trimmed = deliberation.jurors.flatMap(juror =>
+      juror.answers
+        .filter(answer => answer.round > 0 && answer.promptFit)
+        .map(answer => `${juror.model} (round ${answer.round}, ${answer.promptFit!.strategy.replace(/_/g, ' ')})`)
+    );
+    if (trimmed.length > 0) {
+      md += `_Prompts trimmed to fit the context window: ${trimmed.join(', ')}_\n\n`;
+    }
+  }
+
+  // Claim-level agreement
+  if (report.claims && report.claims.length > 0) {
+    const agreed = report.claims.filter(c => c.agreement === 'all' || c.agreement === 'majority');
+    const contested = report.claims.filter(c => c.agreement === 'minority' || c.agreement === 'single');
+
+    if (agreed.length > 0) {
+      md += `## Agreed Claims\n\n`;
+      for (const claim of agreed) {
+        const label = claim.agreement === 'all' ? 'all models' : claim.supportingModels.join(', ');
+        md += `- ${claim.claim} _(${label})_\n`;
+      }
+      md += `\n`;
+    }
+
+    if (contested.length > 0) {
+      md += `## Contested Claims\n\n`;
+      for (const claim of contested) {
+        md += `- ${claim.claim} _(only ${claim.supportingModels.join(', ')})_\n`;
+      }
+      md += `\n`;
+    }
+  }
+  if (report.claimExtractionFailed.length > 0) {
+    md += `_Claims could not be extracted from: ${report.claimExtractionFailed.join(', ')}_\n\n`;
+  }
+
   // Individual responses
   md += `## Individual AI Responses\n\n`;
   for (const response of report.responses) {
-    md += `### ${response.model}\n\n`;
+    md += response.substituteFor
+      ? `### ${response.model} _(substituting for ${response.substituteFor})_\n\n`
+      : `### ${response.model}\n\n`;
+    if (response.promptFit) {
+      md += `_Prompt trimmed to fit a ${response.promptFit.contextWindow}-token context window ` +
+        `(${response.promptFit.strategy.replace(/_/g, ' ')})_\n\n`;
+    }
+    if (response.toolCalls?.length) {
+      md += `_Tools used: ${response.toolCalls.map(c => `\`${c.name}\`${c.error ? ' (failed)' : ''}`).join(', ')}_\n\n`;
+    }
     md += `${response.answer}\n\n`;
+    if (response.reasoning) {
+      md += `_${response.reasoning}_\n\n`;
+    }
+  }
+
+  // Stragglers that answered after the verdict was returned
+  if (report.lateResponses.length > 0) {
+    md += `## Late Responses\n\n`;
+    for (const response of report.lateResponses) {
+      md += `### ${response.model} _(after quorum)_\n\n`;
+      md += `${response.answer}\n\n`;
+    }
   }
 
   // Dissenting opinion
@@ -233,12 +501,44 @@ export function formatAsMarkdown(report: VerdictReport): string {
   // Metadata
   md += `---\n\n`;
   md += `**Agreement Score**: ${Math.round(report.agreementScore * 100)}%\n\n`;
-  md += `**Models Queried**: ${report.modelsQueried.join(', ')}\n\n`;
+
+  if (report.voteTally) {
+    md += `**Vote Tally**: ${report.voteTally}\n\n`;
+  }
+  md += report.panel
+    ? `**Models Queried**: ${report.modelsQueried.join(', ')} (panel: ${report.panel})\n\n`
+    : `**Models Queried**: ${report.modelsQueried.join(', ')}\n\n`;
+
+  if (report.usage) {
+    const { totals } = report.usage;
+    md += `**Cost**: $${totals.costUsd.toFixed(4)} (${totals.totalTokens} tokens across ${totals.calls} calls`;
+    md += totals.cachedCalls > 0
+      ? `, ${totals.cachedCalls} cached: ${totals.cachedBySource.local} local, ${totals.cachedBySource.router} router)\n\n`
+      : `)\n\n`;
+  }
 
   if (report.failedModels.length > 0) {
     md += `**Failed Models**: ${report.failedModels.join(', ')}\n\n`;
   }
 
+  if (report.pendingModels.length > 0) {
+    md += `**Not Waited For (quorum reached)**: ${report.pendingModels.join(', ')}\n\n`;
+  }
+
+  if (report.moderation && report.moderation.flagged.length > 0) {
+    const action = report.moderation.redacted.length > 0 ? 'redacted' : 'flagged';
+    md += `**Moderation**: ${report.moderation.flagged.join(', ')} ${action}\n\n`;
+  }
+  const unchecked = report.moderation?.checks.filter(check => check.unchecked).map(check => check.target) ?? [];
+  if (unchecked.length > 0) {
+    md += `**Moderation Check Failed**: ${unchecked.join(', ')}\n\n`;
+  }
+
+  if (report.partial) {
+    const cause = report.partial.reason === 'deadline' ? 'Deadline exceeded' : 'Cancelled';
+    md += `**Partial Result**: ${cause} during ${report.partial.stage}\n\n`;
+  }
+
   md += `**Timestamp**: ${report.timestamp}\n\n`;
   md += `**Share**: [${report.shareableUrl}](${report.shareableUrl})\n`;
 
@@ -3,6 +3,7 @@
  *
  * Provides REST API endpoints for:
  * - /query - Execute jury queries
+ * - /query/stream - Execute jury queries with Server-Sent Events progress
  * - /health - PAP health check
  * - /status - Agent status and model availability
  */
@@ -17,18 +18,70 @@ import { getLifecycle } from '../pap/lifecycle.js';
 import { getHeartbeat } from '../pap/heartbeat.js';
 import { getMetrics } from '../pap/metrics.js';
 import { getModelRouter } from '../ai/model-router.js';
-import { executeJuryQuery, GuardrailError } from '../ai/consensus.js';
-import { formatVerdict, formatForTwitter, formatAsMarkdown } from '../ai/verdict.js';
+import { getRouterToken } from '../ai/router-token.js';
+import { executeJuryQuery, GuardrailError, ConsensusResult } from '../ai/consensus.js';
+import { formatVerdict, formatForTwitter, formatAsMarkdown, VerdictReport } from '../ai/verdict.js';
 import { getMemoryManager, getMemoryStats, cleanupExpiredSessions } from '../ai/memory.js';
+import { hasSimilarityStrategy } from '../ai/similarity.js';
+import { getCircuitBreakerSnapshots } from '../ai/circuit-breaker.js';
+import { getCallScheduler, CALL_PRIORITIES, CallPriority } from '../ai/scheduler.js';
+import { hasPanel, getModelAliases, listPanels } from '../ai/panels.js';
+import { getBudgetStates, SpendingLimitError } from '../ai/budget.js';
+import { MAX_DELIBERATION_ROUNDS } from '../ai/deliberation.js';
+import { saveVerdict, getVerdict, createLateResponseHandler } from '../ai/verdict-store.js';
+import { isBuiltInTool, JurorDocument } from '../ai/tools/registry.js';
+
+// Structured answer types (vote counting instead of text similarity)
+const AnswerTypeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('boolean') }),
+  z.object({
+    type: z.literal('choice'),
+    options: z.array(z.string().min(1).max(500)).min(2).max(20)
+      .refine(options => new Set(options).size === options.length, { message: 'Options must be unique' }),
+  }),
+  z.object({ type: z.literal('number'), unit: z.string().max(50).optional() }),
+  z.object({ type: z.literal('json'), schema: z.record(z.unknown()) }),
+]);
 
 // Request validation schemas
 const QueryRequestSchema = z.object({
   question: z.string().min(1).max(10000),
   context: z.string().max(50000).optional(),
   models: z.array(z.string()).min(1).max(10).optional(),
+  panel: z.string().refine(hasPanel, { message: 'Unknown panel' }).optional(),
   format: z.enum(['json', 'twitter', 'markdown']).optional(),
+  similarity_strategy: z.string()
+    .refine(hasSimilarityStrategy, { message: 'Unknown similarity strategy' })
+    .optional(),
+  claims: z.boolean().optional(),
+  synthesis: z.boolean().optional(),
+  answer_type: AnswerTypeSchema.optional(),
+  deliberation_rounds: z.number().int().min(0).max(MAX_DELIBERATION_ROUNDS).optional(),
+  quorum: z.number().int().min(1).max(10).optional(),
+  straggler_policy: z.enum(['abort', 'background']).optional(),
+  tools: z.array(z.string().refine(isBuiltInTool, { message: 'Unknown tool' })).max(10).optional(),
+  documents: z.array(z.object({
+    id: z.string().min(1).max(200).optional(),
+    title: z.string().max(500).optional(),
+    content: z.string().min(1).max(100000),
+  })).max(20).optional(),
+  priority: z.enum(CALL_PRIORITIES as [CallPriority, ...CallPriority[]]).optional(),
+}).refine(body => !(body.panel && body.models), {
+  message: 'Pass either models or panel, not both',
+  path: ['panel'],
 });
 
+// Longest time budget a caller can set with X-Deadline-Ms
+const MAX_DEADLINE_MS = 10 * 60 * 1000;
+
+// X-Deadline-Ms header: the caller's time budget for the query
+const DeadlineHeaderSchema = z
+  .string({ invalid_type_error: 'X-Deadline-Ms must be a single value' })
+  .regex(/^\d+$/, 'X-Deadline-Ms must be a number of milliseconds')
+  .transform(Number)
+  .pipe(z.number().int().min(1).max(MAX_DEADLINE_MS, `X-Deadline-Ms must be at most ${MAX_DEADLINE_MS}`))
+  .optional();
+
 // Chat API schema (simpler interface for UI)
 const ChatRequestSchema = z.object({
   message: z.string().min(1).max(10000),
@@ -38,6 +91,139 @@ const ChatRequestSchema = z.object({
   })).optional(),
 });
 
+/**
+ * Open a Server-Sent Events stream and return a writer for named events
+ */
+function openEventStream(res: Response): (event: string, data: unknown) => void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  return (event, data) => {
+    if (res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
+
+/**
+ * Signal that fires when the client disconnects before the response is complete
+ */
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort(new Error('Client disconnected'));
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Documents for the search_documents tool (unnamed documents are numbered)
+ */
+function toJurorDocuments(
+  documents: Array<{ id?: string; title?: string; content: string }> | undefined
+): JurorDocument[] | undefined {
+  return documents?.map((doc, index) => ({ ...doc, id: doc.id ?? `doc-${index + 1}` }));
+}
+
+/**
+ * Error payload for a query blocked by a spending budget
+ */
+function toSpendingLimitError(error: SpendingLimitError): Record<string, unknown> {
+  return {
+    code: 'SPENDING_LIMIT_EXCEEDED',
+    message: error.message,
+    scope: error.scope,
+    limitUsd: error.limitUsd,
+    spentUsd: error.spentUsd,
+    estimatedCostUsd: error.estimatedCostUsd,
+  };
+}
+
+/**
+ * Error payload for a stream that already sent its headers
+ */
+function toStreamError(error: unknown): Record<string, unknown> {
+  if (error instanceof SpendingLimitError) {
+    return toSpendingLimitError(error);
+  }
+
+  if (error instanceof GuardrailError) {
+    return {
+      code: 'GUARDRAIL_BLOCKED',
+      message: error.message,
+      reason: error.reason,
+      riskLevel: error.riskLevel,
+    };
+  }
+
+  return {
+    code: 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'Internal server error',
+  };
+}
+
+/**
+ * Check whether the caller asked to skip the response cache
+ * (X-Cache-Bypass: true or a Cache-Control no-cache directive)
+ */
+function wantsCacheBypass(req: Request): boolean {
+  if (req.headers['x-cache-bypass'] === 'true') return true;
+
+  // Directive names only - "no-cache" inside a value (e.g. a private="..." field list) doesn't count
+  const directives = (req.headers['cache-control'] ?? '')
+    .split(',')
+    .map(directive => directive.split('=')[0].trim().toLowerCase());
+  return directives.includes('no-cache');
+}
+
+/**
+ * Build the simplified chat response from a verdict report
+ */
+function toChatResponse(report: VerdictReport, result: ConsensusResult) {
+  return {
+    response: report.consensusAnswer || report.summary || 'I was unable to generate a response.',
+    consensus: {
+      verdict: report.verdict,
+      confidence: report.confidence,
+      agreementScore: report.agreementScore,
+    },
+    models_used: report.successfulModels || [],
+    // Include individual model responses for UI to display
+    model_responses: report.responses || [],
+    failed_models: report.failedModels || [],
+    pending_models: report.pendingModels,
+    verdict_id: report.id,
+    // Include session info if available
+    session_id: result.sessionId,
+    memory_context_used: result.memoryContextUsed,
+    reflection_applied: result.reflectionApplied,
+    quality_score: result.qualityScore,
+    claims: result.claims,
+    claim_extraction_failed: report.claimExtractionFailed,
+    usage: report.usage?.totals ?? null,
+    partial: report.partial,
+  };
+}
+
+// Prometheus gauge values for circuit breaker states
+const CIRCUIT_STATE_VALUES: Record<string, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2,
+};
+
+/**
+ * Escape a Prometheus label value (model names come from requests)
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
 export interface ServerConfig {
   port: number;
   baseUrl?: string;
@@ -75,6 +261,12 @@ export function createServer(config: ServerConfig): Application {
       return;
     }
 
+    // Handle spending budget errors (distinct from the router's own 402)
+    if (err instanceof SpendingLimitError) {
+      res.status(402).json({ error: toSpendingLimitError(err) });
+      return;
+    }
+
     res.status(500).json({
       error: {
         code: 'INTERNAL_ERROR',
@@ -108,6 +300,18 @@ export function createServer(config: ServerConfig): Application {
       return;
     }
 
+    // Router token expired or revoked - every jury query would fail
+    const routerToken = getRouterToken();
+    if (routerToken?.isDegraded()) {
+      res.status(503).json({
+        status: 'degraded',
+        state,
+        reason: `Model Router token ${routerToken.getState()}`,
+        uptime: heartbeat?.getUptimeSeconds() ?? 0,
+      });
+      return;
+    }
+
     res.json({
       status: 'healthy',
       state,
@@ -136,13 +340,19 @@ export function createServer(config: ServerConfig): Application {
       }
     }
 
+    const routerToken = getRouterToken();
+
     res.json({
       state: lifecycle?.getState() ?? 'UNKNOWN',
       mode: heartbeat?.getMode() ?? 'UNKNOWN',
+      degraded: routerToken?.isDegraded() ?? false,
+      model_router_token: routerToken?.getStatus() ?? null,
       uptime_seconds: heartbeat?.getUptimeSeconds() ?? 0,
       metrics: metrics?.getMetrics() ?? null,
       configured_models: config.models ?? [],  // Models configured via COMPASS_MODELS env
       available_models: modelStatus,           // Models available on the router
+      circuit_breakers: getCircuitBreakerSnapshots(),
+      call_scheduler: getCallScheduler()?.getSnapshot() ?? null,
     });
   });
 
@@ -165,21 +375,41 @@ export function createServer(config: ServerConfig): Application {
     try {
       // Validate request
       const parseResult = QueryRequestSchema.safeParse(req.body);
-      if (!parseResult.success) {
+      const deadline = DeadlineHeaderSchema.safeParse(req.headers['x-deadline-ms']);
+      if (!parseResult.success || !deadline.success) {
         res.status(400).json({
           error: {
             code: 'VALIDATION_ERROR',
             message: 'Invalid request',
-            details: parseResult.error.issues,
+            details: [...(parseResult.error?.issues ?? []), ...(deadline.error?.issues ?? [])],
           },
         });
         return;
       }
 
-      const { question, context, models: requestModels, format } = parseResult.data;
+      const {
+        question,
+        context,
+        models: requestModels,
+        panel,
+        format,
+        similarity_strategy: similarityStrategy,
+        claims: enableClaims,
+        synthesis: enableSynthesis,
+        answer_type: answerType,
+        deliberation_rounds: deliberationRounds,
+        quorum,
+        straggler_policy: stragglerPolicy,
+        tools,
+        documents,
+        priority,
+      } = parseResult.data;
 
       // Extract session ID from header (or undefined for stateless query)
       const sessionId = req.headers['x-session-id'] as string | undefined;
+      const callerId = req.headers['x-caller-id'] as string | undefined;
+      const bypassCache = wantsCacheBypass(req);
+      const disconnected = abortOnDisconnect(res);
 
       // Increment request counter
       metricsCollector?.incrementRequests();
@@ -189,16 +419,43 @@ export function createServer(config: ServerConfig): Application {
         ? requestModels
         : config.models;
 
+      // Late straggler answers are attached to the stored verdict
+      const lateResponses = createLateResponseHandler();
+
       // Execute jury query with session support
       const result = await executeJuryQuery({
         question,
         context,
         models: modelsToUse,
+        panel,
         sessionId,
+        callerId,
+        bypassCache,
+        similarityStrategy,
+        answerType,
+        deliberationRounds,
+        enableClaims,
+        enableSynthesis,
+        quorum,
+        stragglerPolicy,
+        tools,
+        documents: toJurorDocuments(documents),
+        priority,
+        signal: disconnected,
+        deadlineMs: deadline.data,
+        onLateResponse: lateResponses.onLateResponse,
       });
 
-      // Format verdict
+      // Nobody is waiting for the verdict any more
+      if (disconnected.aborted) {
+        console.log('[Server] Client disconnected, dropping query result');
+        return;
+      }
+
+      // Format and store verdict
       const report = formatVerdict(result, question, config.baseUrl);
+      saveVerdict(report);
+      lateResponses.bind(report.id);
 
       // Return in requested format
       switch (format) {
@@ -223,6 +480,107 @@ export function createServer(config: ServerConfig): Application {
     }
   });
 
+  // Query streaming endpoint - emits juror progress as Server-Sent Events
+  // Events: juror_started, juror_completed, consensus_computed,
+  // reflection_completed, final_report (or error)
+  app.post('/query/stream', async (req: Request, res: Response) => {
+    const lifecycle = getLifecycle();
+    const metricsCollector = getMetrics();
+
+    // Check if agent is operational
+    if (!lifecycle?.isOperational()) {
+      res.status(503).json({
+        error: {
+          code: 'AGENT_NOT_OPERATIONAL',
+          message: `Agent is in ${lifecycle?.getState() ?? 'UNKNOWN'} state`,
+        },
+      });
+      return;
+    }
+
+    // Validate request (errors are returned before the stream opens)
+    const parseResult = QueryRequestSchema.safeParse(req.body);
+    const deadline = DeadlineHeaderSchema.safeParse(req.headers['x-deadline-ms']);
+    if (!parseResult.success || !deadline.success) {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request',
+          details: [...(parseResult.error?.issues ?? []), ...(deadline.error?.issues ?? [])],
+        },
+      });
+      return;
+    }
+
+    const {
+      question,
+      context,
+      models: requestModels,
+      panel,
+      similarity_strategy: similarityStrategy,
+      claims: enableClaims,
+      synthesis: enableSynthesis,
+      answer_type: answerType,
+      deliberation_rounds: deliberationRounds,
+      quorum,
+      straggler_policy: stragglerPolicy,
+      tools,
+      documents,
+      priority,
+    } = parseResult.data;
+    const sessionId = req.headers['x-session-id'] as string | undefined;
+    const callerId = req.headers['x-caller-id'] as string | undefined;
+    const bypassCache = wantsCacheBypass(req);
+
+    metricsCollector?.incrementRequests();
+
+    const send = openEventStream(res);
+    const disconnected = abortOnDisconnect(res);
+    const lateResponses = createLateResponseHandler();
+
+    try {
+      const result = await executeJuryQuery({
+        question,
+        context,
+        models: requestModels && requestModels.length > 0 ? requestModels : config.models,
+        panel,
+        sessionId,
+        callerId,
+        bypassCache,
+        similarityStrategy,
+        answerType,
+        deliberationRounds,
+        enableClaims,
+        enableSynthesis,
+        quorum,
+        stragglerPolicy,
+        tools,
+        documents: toJurorDocuments(documents),
+        priority,
+        signal: disconnected,
+        deadlineMs: deadline.data,
+        onLateResponse: lateResponses.onLateResponse,
+        onEvent: (event) => send(event.type, event),
+      });
+
+      if (disconnected.aborted) {
+        console.log('[Server] Client disconnected, dropping query result');
+        return;
+      }
+
+      const report = formatVerdict(result, question, config.baseUrl);
+      saveVerdict(report);
+      lateResponses.bind(report.id);
+
+      send('final_report', { type: 'final_report', report });
+    } catch (error) {
+      console.error('[Server] Stream error:', error);
+      send('error', { type: 'error', error: toStreamError(error) });
+    }
+
+    res.end();
+  });
+
   // Models endpoint - list available models
   app.get('/models', async (_req: Request, res: Response) => {
     const router = getModelRouter();
@@ -238,7 +596,11 @@ export function createServer(config: ServerConfig): Application {
 
     try {
       const models = await router.listModels();
-      res.json({ models });
+      res.json({
+        models,
+        aliases: getModelAliases(),
+        panels: listPanels(),
+      });
     } catch (error) {
       res.status(500).json({
         error: {
@@ -290,9 +652,66 @@ compass_consensus_unanimous_total ${data.consensusResults.unanimous}
 # TYPE compass_consensus_split_total counter
 compass_consensus_split_total ${data.consensusResults.split}
 
+# HELP compass_consensus_plurality_total Plurality verdicts
+# TYPE compass_consensus_plurality_total counter
+compass_consensus_plurality_total ${data.consensusResults.plurality}
+
 # HELP compass_consensus_no_consensus_total No consensus verdicts
 # TYPE compass_consensus_no_consensus_total counter
 compass_consensus_no_consensus_total ${data.consensusResults.no_consensus}
+
+# HELP compass_cost_usd_total Router-billed cost in USD
+# TYPE compass_cost_usd_total counter
+compass_cost_usd_total ${data.usage.costUsd}
+
+# HELP compass_tokens_total Tokens used across all router calls
+# TYPE compass_tokens_total counter
+compass_tokens_total{type="prompt"} ${data.usage.promptTokens}
+compass_tokens_total{type="completion"} ${data.usage.completionTokens}
+
+# HELP compass_cached_calls_total Router calls served from the router cache
+# TYPE compass_cached_calls_total counter
+compass_cached_calls_total ${data.usage.cachedCalls}
+
+# HELP compass_model_cost_usd_total Router-billed cost in USD per model
+# TYPE compass_model_cost_usd_total counter
+${Object.entries(data.usage.costByModel)
+  .map(([model, cost]) => `compass_model_cost_usd_total{model="${escapeLabelValue(model)}"} ${cost}`)
+  .join('\n')}
+
+# HELP compass_response_cache_hits_total Juror calls answered from the response cache
+# TYPE compass_response_cache_hits_total counter
+compass_response_cache_hits_total ${data.cache.hits}
+
+# HELP compass_response_cache_misses_total Response cache lookups that missed
+# TYPE compass_response_cache_misses_total counter
+compass_response_cache_misses_total ${data.cache.misses}
+
+# HELP compass_circuit_openings_total Times a model circuit breaker opened
+# TYPE compass_circuit_openings_total counter
+compass_circuit_openings_total ${data.circuits.openings}
+
+# HELP compass_circuit_state Circuit breaker state per model (0 closed, 1 half-open, 2 open)
+# TYPE compass_circuit_state gauge
+${Object.entries(data.circuits.states)
+  .map(([model, state]) => `compass_circuit_state{model="${escapeLabelValue(model)}"} ${CIRCUIT_STATE_VALUES[state] ?? 0}`)
+  .join('\n')}
+
+# HELP compass_router_queue_depth Chat calls waiting for a scheduler slot
+# TYPE compass_router_queue_depth gauge
+compass_router_queue_depth ${data.scheduler.queueDepth}
+
+# HELP compass_router_in_flight Chat calls in flight
+# TYPE compass_router_in_flight gauge
+compass_router_in_flight ${data.scheduler.inFlight}
+
+# HELP compass_router_queued_calls_total Chat calls that waited in the scheduler queue
+# TYPE compass_router_queued_calls_total counter
+compass_router_queued_calls_total ${data.scheduler.queuedCalls}
+
+# HELP compass_router_queue_wait_ms_total Total time chat calls spent in the scheduler queue
+# TYPE compass_router_queue_wait_ms_total counter
+compass_router_queue_wait_ms_total ${data.scheduler.totalQueueWaitMs}
 `.trim();
 
     res.type('text/plain').send(prometheusFormat);
@@ -317,12 +736,13 @@ compass_consensus_no_consensus_total ${data.consensusResults.no_consensus}
     try {
       // Validate request
       const parseResult = ChatRequestSchema.safeParse(req.body);
-      if (!parseResult.success) {
+      const deadline = DeadlineHeaderSchema.safeParse(req.headers['x-deadline-ms']);
+      if (!parseResult.success || !deadline.success) {
         res.status(400).json({
           error: {
             code: 'VALIDATION_ERROR',
             message: 'Invalid request',
-            details: parseResult.error.issues,
+            details: [...(parseResult.error?.issues ?? []), ...(deadline.error?.issues ?? [])],
           },
         });
         return;
@@ -332,6 +752,9 @@ compass_consensus_no_consensus_total ${data.consensusResults.no_consensus}
 
       // Extract session ID from header (or undefined for stateless chat)
       const sessionId = req.headers['x-session-id'] as string | undefined;
+      const callerId = req.headers['x-caller-id'] as string | undefined;
+      const bypassCache = wantsCacheBypass(req);
+      const disconnected = abortOnDisconnect(res);
 
       // Build context from history (memory will also add conversation context)
       const context = history
@@ -341,38 +764,144 @@ compass_consensus_no_consensus_total ${data.consensusResults.no_consensus}
       // Increment request counter
       metricsCollector?.incrementRequests();
 
+      const lateResponses = createLateResponseHandler();
+
       // Execute jury query with session support
       const result = await executeJuryQuery({
         question: message,
         context: context || undefined,
         models: config.models,
         sessionId,
+        callerId,
+        bypassCache,
+        priority: 'interactive', // Someone is waiting in the chat UI
+        signal: disconnected,
+        deadlineMs: deadline.data,
+        onLateResponse: lateResponses.onLateResponse,
       });
 
-      // Format verdict
+      // The browser closed the chat - nobody is waiting for the verdict
+      if (disconnected.aborted) {
+        console.log('[Server] Client disconnected, dropping chat result');
+        return;
+      }
+
+      // Format and store verdict
       const report = formatVerdict(result, message, config.baseUrl);
+      saveVerdict(report);
+      lateResponses.bind(report.id);
 
       // Return simplified response for chat
-      res.json({
-        response: report.consensusAnswer || report.summary || 'I was unable to generate a response.',
-        consensus: {
-          verdict: report.verdict,
-          confidence: report.confidence,
-          agreementScore: report.agreementScore,
+      res.json(toChatResponse(report, result));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Chat streaming endpoint - same as /api/chat, with progress as Server-Sent Events
+  app.post('/api/chat/stream', async (req: Request, res: Response) => {
+    const lifecycle = getLifecycle();
+    const metricsCollector = getMetrics();
+
+    // Check if agent is operational
+    if (!lifecycle?.isOperational()) {
+      res.status(503).json({
+        error: {
+          code: 'AGENT_NOT_OPERATIONAL',
+          message: `Agent is in ${lifecycle?.getState() ?? 'UNKNOWN'} state`,
         },
-        models_used: report.successfulModels || [],
-        // Include individual model responses for UI to display
-        model_responses: report.responses || [],
-        failed_models: report.failedModels || [],
-      // Include session info if available
-      session_id: result.sessionId,
-      memory_context_used: result.memoryContextUsed,
-      reflection_applied: result.reflectionApplied,
-      quality_score: result.qualityScore,
       });
+      return;
+    }
+
+    // Validate request
+    const parseResult = ChatRequestSchema.safeParse(req.body);
+    const deadline = DeadlineHeaderSchema.safeParse(req.headers['x-deadline-ms']);
+    if (!parseResult.success || !deadline.success) {
+      res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid request',
+          details: [...(parseResult.error?.issues ?? []), ...(deadline.error?.issues ?? [])],
+        },
+      });
+      return;
+    }
+
+    const { message, history } = parseResult.data;
+    const sessionId = req.headers['x-session-id'] as string | undefined;
+    const callerId = req.headers['x-caller-id'] as string | undefined;
+    const bypassCache = wantsCacheBypass(req);
+    const context = history
+      ?.map((h) => `${h.role === 'user' ? 'User' : 'Assistant'}: ${h.content}`)
+      .join('\n\n');
+
+    metricsCollector?.incrementRequests();
+
+    const send = openEventStream(res);
+    const disconnected = abortOnDisconnect(res);
+    const lateResponses = createLateResponseHandler();
+
+    try {
+      const result = await executeJuryQuery({
+        question: message,
+        context: context || undefined,
+        models: config.models,
+        sessionId,
+        callerId,
+        bypassCache,
+        priority: 'interactive', // Someone is waiting in the chat UI
+        signal: disconnected,
+        deadlineMs: deadline.data,
+        onLateResponse: lateResponses.onLateResponse,
+        onEvent: (event) => send(event.type, event),
+      });
+
+      if (disconnected.aborted) {
+        console.log('[Server] Client disconnected, dropping chat result');
+        return;
+      }
+
+      const report = formatVerdict(result, message, config.baseUrl);
+      saveVerdict(report);
+      lateResponses.bind(report.id);
+
+      send('final_report', { type: 'final_report', ...toChatResponse(report, result) });
     } catch (error) {
-      next(error);
+      console.error('[Server] Stream error:', error);
+      send('error', { type: 'error', error: toStreamError(error) });
+    }
+
+    res.end();
+  });
+
+  // Verdict endpoint - fetch a stored verdict (including late straggler answers)
+  app.get('/api/verdicts/:id', (req: Request, res: Response) => {
+    const report = getVerdict(String(req.params.id));
+
+    if (!report) {
+      res.status(404).json({
+        error: {
+          code: 'VERDICT_NOT_FOUND',
+          message: 'Verdict not found or expired',
+        },
+      });
+      return;
     }
+
+    res.json(report);
+  });
+
+  // Budget endpoint - spend and remaining allowance for the caller, session and agent
+  app.get('/api/budget', (req: Request, res: Response) => {
+    const sessionId = req.headers['x-session-id'] as string | undefined;
+    const callerId = req.headers['x-caller-id'] as string | undefined;
+
+    res.json({
+      caller_id: callerId ?? null,
+      session_id: sessionId ?? null,
+      budgets: getBudgetStates(callerId, sessionId),
+    });
   });
 
   // Session history endpoint - get conversation history for a session
@@ -0,0 +1,60 @@
+/**
+ * Similarity Benchmark CLI
+ *
+ * Usage:
+ *   npm run benchmark:similarity
+ *   npm run benchmark:similarity -- --strategies tfidf,bm25 --pairs ./my-pairs.json
+ *
+ * Router-backed strategies (embedding, llm-judge) need MODEL_ROUTER_URL and
+ * MODEL_ROUTER_TOKEN; without them those strategies are reported as errors.
+ */
+
+import { readFileSync } from 'fs';
+import { initializeModelRouter } from '../ai/model-router.js';
+import {
+  runSimilarityBenchmark,
+  formatBenchmarkReport,
+  formatSuggestedThresholds,
+  LabelledPair,
+} from '../ai/similarity-benchmark.js';
+import defaultPairs from './similarity-pairs.json';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  if (process.env.MODEL_ROUTER_URL && process.env.MODEL_ROUTER_TOKEN) {
+    initializeModelRouter({
+      baseUrl: process.env.MODEL_ROUTER_URL,
+      agentId: process.env.PAP_AGENT_ID || 'compass-benchmark',
+      token: process.env.MODEL_ROUTER_TOKEN,
+    });
+  }
+
+  const pairsPath = getArg('pairs');
+  const pairs: LabelledPair[] = pairsPath
+    ? JSON.parse(readFileSync(pairsPath, 'utf-8'))
+    : defaultPairs;
+
+  const strategies = getArg('strategies')?.split(',').map(s => s.trim()).filter(Boolean);
+
+  console.log(`[Benchmark] Scoring ${pairs.length} labelled pairs...`);
+  const results = await runSimilarityBenchmark(pairs, strategies);
+
+  console.log();
+  console.log(formatBenchmarkReport(results));
+  console.log();
+  console.log(formatSuggestedThresholds(results));
+
+  if (process.argv.includes('--json')) {
+    console.log();
+    console.log(JSON.stringify(results, null, 2));
+  }
+}
+
+main().catch((error) => {
+  console.error('[Fatal] Benchmark failed:', error);
+  process.exit(1);
+});
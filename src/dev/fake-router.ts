@@ -0,0 +1,332 @@
+/**
+ * Fake Model Router
+ *
+ * Local stand-in for the PAP Model Router so the agent, UI and consensus
+ * behaviour can be developed without network access or credentials.
+ * Implements the endpoints the agent uses (chat completions with and
+ * without streaming, models, embeddings) with scripted, deterministic
+ * answers and the router's PAP headers.
+ *
+ * A script configures each model (with `defaults` for unlisted models):
+ *
+ * {
+ *   "defaults": { "latencyMs": 100 },
+ *   "models": {
+ *     "gpt-4o": {
+ *       "rules": [{ "contains": "capital of France", "response": "Paris." }],
+ *       "responses": ["First answer", "Second answer"],
+ *       "costUsd": 0.002,
+ *       "failures": [429, 429],
+ *       "retryAfterSeconds": 1,
+ *       "toolCalls": [{ "name": "calculator", "arguments": { "expression": "6 * 7" } }]
+ *     }
+ *   }
+ * }
+ *
+ * - rules: First rule whose text occurs in the prompt wins
+ * - responses: Otherwise cycled per call
+ * - failures: Status codes (429, 401, 402, 500, ...) returned by the first
+ *   calls, in order, before the model starts answering
+ * - toolCalls: Called when the request offers tools and the conversation
+ *   has no tool results yet; rules can then match the tool results
+ *
+ * Control endpoints (for tests):
+ * - POST /__fake/script: Replace the script and reset call counters
+ * - POST /__fake/reset: Reset call counters
+ * - GET /__fake/calls: Chat calls received per model (including injected failures)
+ */
+
+import express, { Application, Request, Response } from 'express';
+import { createHash } from 'crypto';
+import type { ChatCompletionRequest, ChatMessage, EmbeddingRequest, ToolCall } from '../ai/model-router.js';
+
+export interface FakeModelScript {
+  /** Prompt substring rules, checked before `responses` */
+  rules?: Array<{ contains: string; response: string }>;
+  /** Answers cycled per call */
+  responses?: string[];
+  /** Delay before answering (ms) */
+  latencyMs?: number;
+  /** X-Model-Provider header (default: guessed from the model name) */
+  provider?: string;
+  /** X-Request-Cost header per call */
+  costUsd?: number;
+  /** Status codes for the first calls, in order */
+  failures?: number[];
+  /** Retry-After header sent with 429 failures */
+  retryAfterSeconds?: number;
+  /** context_length reported by /v1/models (catalog value when unset) */
+  contextLength?: number;
+  /** Tool calls made before answering (when the request offers tools) */
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface FakeRouterScript {
+  defaults?: FakeModelScript;
+  models?: Record<string, FakeModelScript>;
+}
+
+export interface FakeRouterOptions {
+  /** Bearer token the router accepts (any token when unset) */
+  token?: string;
+}
+
+const DEFAULT_RESPONSE = 'This is a scripted answer from the fake Model Router.';
+const DEFAULT_COST_USD = 0.001;
+const EMBEDDING_DIMENSIONS = 64;
+
+// Rough token estimate for English text
+const CHARS_PER_TOKEN = 4;
+
+const ERROR_MESSAGES: Record<number, string> = {
+  401: 'Invalid or revoked token (injected by fake router)',
+  402: 'Agent budget exceeded (injected by fake router)',
+  429: 'Rate limit exceeded (injected by fake router)',
+};
+
+function guessProvider(model: string): string {
+  if (model.startsWith('gpt-') || /^o\d/.test(model) || model.startsWith('text-embedding-3')) return 'openai';
+  if (model.startsWith('claude-')) return 'anthropic';
+  if (model.startsWith('gemini-')) return 'google';
+  return 'fake';
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Deterministic unit vector for a text (same text, same vector)
+ */
+function fakeEmbedding(text: string): number[] {
+  const values: number[] = [];
+  for (let i = 0; values.length < EMBEDDING_DIMENSIONS; i++) {
+    const digest = createHash('sha256').update(`${i}:${text}`).digest();
+    for (let j = 0; j < digest.length && values.length < EMBEDDING_DIMENSIONS; j++) {
+      values.push(digest[j] / 127.5 - 1);
+    }
+  }
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return values.map(v => v / norm);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create the fake router app (listen on it with app.listen())
+ */
+export function createFakeRouter(script: FakeRouterScript = {}, options: FakeRouterOptions = {}): Application {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  let currentScript = script;
+  const callCounts = new Map<string, number>();
+
+  const getModelScript = (model: string): FakeModelScript => ({
+    ...currentScript.defaults,
+    ...currentScript.models?.[model],
+  });
+
+  /**
+   * Count the call and return the failure to inject, if any
+   */
+  const nextCall = (model: string): { call: number; failure?: number } => {
+    const call = callCounts.get(model) ?? 0;
+    callCounts.set(model, call + 1);
+    return { call, failure: getModelScript(model).failures?.[call] };
+  };
+
+  const pickResponse = (model: string, messages: ChatMessage[], call: number, failures: number): string => {
+    const modelScript = getModelScript(model);
+    const prompt = messages.map(m => m.content).join('\n');
+
+    const rule = modelScript.rules?.find(r => prompt.includes(r.contains));
+    if (rule) return rule.response;
+
+    const responses = modelScript.responses;
+    if (responses && responses.length > 0) {
+      // Injected failures don't consume scripted answers
+      return responses[(call - failures) % responses.length];
+    }
+    return DEFAULT_RESPONSE;
+  };
+
+  /**
+   * Scripted tool calls for this turn (none once tool results are present)
+   */
+  const pickToolCalls = (model: string, body: ChatCompletionRequest, call: number): ToolCall[] | undefined => {
+    const scripted = getModelScript(model).toolCalls;
+    if (
+      !scripted?.length ||
+      !body.tools?.length ||
+      body.tool_choice === 'none' ||
+      body.messages.some(m => m.role === 'tool')
+    ) {
+      return undefined;
+    }
+    return scripted.map((toolCall, index) => ({
+      id: `call-${model}-${call + 1}-${index}`,
+      type: 'function',
+      function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+    }));
+  };
+
+  const setPapHeaders = (res: Response, model: string, startTime: number): void => {
+    const modelScript = getModelScript(model);
+    res.setHeader('X-Request-Cost', String(modelScript.costUsd ?? DEFAULT_COST_USD));
+    res.setHeader('X-Model-Provider', modelScript.provider ?? guessProvider(model));
+    res.setHeader('X-Request-Latency-Ms', String(Date.now() - startTime));
+    res.setHeader('X-Cache-Status', 'MISS');
+  };
+
+  const sendError = (res: Response, status: number, model: string): void => {
+    const retryAfter = getModelScript(model).retryAfterSeconds;
+    if (status === 429 && retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(retryAfter));
+    }
+    res.status(status).json({
+      error: { message: ERROR_MESSAGES[status] || `Injected failure (HTTP ${status})`, code: status },
+    });
+  };
+
+  // Token check - mirrors the router's 401 on a bad JWT
+  app.use('/v1', (req: Request, res: Response, next) => {
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      res.status(401).json({ error: { message: 'Invalid token', code: 401 } });
+      return;
+    }
+    next();
+  });
+
+  app.post('/v1/chat/completions', async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const body = req.body as ChatCompletionRequest;
+    const model = body.model;
+
+    if (!model || !Array.isArray(body.messages)) {
+      res.status(400).json({ error: { message: 'model and messages are required', code: 400 } });
+      return;
+    }
+
+    const { call, failure } = nextCall(model);
+    await sleep(getModelScript(model).latencyMs ?? 0);
+
+    if (failure) {
+      console.log(`[FakeRouter] ${model} call ${call + 1}: injected HTTP ${failure}`);
+      sendError(res, failure, model);
+      return;
+    }
+
+    const failures = getModelScript(model).failures?.length ?? 0;
+    const toolCalls = pickToolCalls(model, body, call);
+    const content = toolCalls ? '' : pickResponse(model, body.messages, call, Math.min(call, failures));
+    const finishReason = toolCalls ? 'tool_calls' : 'stop';
+    const promptTokens = estimateTokens(body.messages.map(m => m.content).join('\n'));
+    const completionTokens = estimateTokens(content);
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+    const id = `fake-${model}-${call + 1}`;
+
+    console.log(`[FakeRouter] ${model} call ${call + 1}: ${completionTokens} tokens${body.stream ? ' (stream)' : ''}`);
+    setPapHeaders(res, model, startTime);
+
+    if (!body.stream) {
+      res.json({
+        id,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content, tool_calls: toolCalls }, finish_reason: finishReason }],
+        usage,
+      });
+      return;
+    }
+
+    // OpenAI-style SSE stream, one word per chunk
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    if (toolCalls) {
+      res.write(`data: ${JSON.stringify({
+        id,
+        model,
+        choices: [{
+          index: 0,
+          delta: { tool_calls: toolCalls.map((toolCall, index) => ({ index, ...toolCall })) },
+          finish_reason: finishReason,
+        }],
+      })}\n\n`);
+    }
+    const words = toolCalls ? [] : content.split(/(?<=\s)/);
+    for (const [index, word] of words.entries()) {
+      const last = index === words.length - 1;
+      res.write(`data: ${JSON.stringify({
+        id,
+        model,
+        choices: [{ index: 0, delta: { content: word }, finish_reason: last ? finishReason : null }],
+      })}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify({ id, model, choices: [], usage })}\n\n`);
+    res.end('data: [DONE]\n\n');
+  });
+
+  app.post('/v1/embeddings', (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const body = req.body as EmbeddingRequest;
+    const input = Array.isArray(body.input) ? body.input : [String(body.input)];
+    const tokens = estimateTokens(input.join(''));
+
+    setPapHeaders(res, body.model, startTime);
+    res.json({
+      model: body.model,
+      data: input.map((text, index) => ({ index, embedding: fakeEmbedding(text) })),
+      usage: { prompt_tokens: tokens, total_tokens: tokens },
+    });
+  });
+
+  app.get('/v1/models', (_req: Request, res: Response) => {
+    res.json({
+      object: 'list',
+      data: Object.entries(currentScript.models ?? {}).map(([id, modelScript]) => ({
+        id,
+        object: 'model',
+        owned_by: modelScript.provider ?? guessProvider(id),
+        context_length: modelScript.contextLength,
+      })),
+    });
+  });
+
+  app.post('/__fake/script', (req: Request, res: Response) => {
+    currentScript = req.body as FakeRouterScript;
+    callCounts.clear();
+    res.json({ ok: true, models: Object.keys(currentScript.models ?? {}) });
+  });
+
+  app.post('/__fake/reset', (_req: Request, res: Response) => {
+    callCounts.clear();
+    res.json({ ok: true });
+  });
+
+  app.get('/__fake/calls', (_req: Request, res: Response) => {
+    res.json({ calls: Object.fromEntries(callCounts) });
+  });
+
+  return app;
+}
+
+/**
+ * Default script: every default jury model agrees
+ */
+export function getDefaultFakeRouterScript(): FakeRouterScript {
+  return {
+    defaults: { latencyMs: 50 },
+    models: {
+      'gpt-4o': {},
+      'claude-3-5-sonnet-20241022': {},
+      'gemini-1.5-flash': {},
+      'text-embedding-3-small': {},
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Fake Model Router CLI
+ *
+ * Usage:
+ *   npm run fake-router
+ *   npm run fake-router -- --port 4010 --script ./fake-router.json --token dev-token
+ *
+ * Then start the agent against it:
+ *   MODEL_ROUTER_URL=http://localhost:4010 MODEL_ROUTER_TOKEN=dev-token npm run dev
+ */
+
+import { readFileSync } from 'fs';
+import {
+  createFakeRouter,
+  getDefaultFakeRouterScript,
+  FakeRouterScript,
+} from './fake-router.js';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function main(): void {
+  const port = parseInt(getArg('port') || process.env.FAKE_ROUTER_PORT || '4010', 10);
+  const scriptPath = getArg('script') || process.env.FAKE_ROUTER_SCRIPT;
+  const token = getArg('token') || process.env.FAKE_ROUTER_TOKEN;
+
+  const script: FakeRouterScript = scriptPath
+    ? JSON.parse(readFileSync(scriptPath, 'utf-8'))
+    : getDefaultFakeRouterScript();
+
+  const app = createFakeRouter(script, { token });
+  app.listen(port, () => {
+    console.log(`[FakeRouter] Listening on http://localhost:${port}`);
+    console.log(`[FakeRouter] Script: ${scriptPath || 'built-in default'}`);
+    console.log(`[FakeRouter] Models: ${Object.keys(script.models ?? {}).join(', ') || '(none listed)'}`);
+    if (token) console.log('[FakeRouter] Requiring bearer token');
+  });
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('[Fatal] Fake router failed to start:', error);
+  process.exit(1);
+}
@@ -15,6 +15,9 @@ import { initializeHeartbeat } from './pap/heartbeat.js';
 import { initializeMetrics } from './pap/metrics.js';
 import { initializeLifecycle } from './pap/lifecycle.js';
 import { initializeModelRouter } from './ai/model-router.js';
+import { initializeDirectProviders, getDirectProviderConfig } from './ai/providers/direct.js';
+import { getModelRetryPolicyOverrides } from './ai/retry-policy.js';
+import { getRouterToken, getRouterTokenSettings } from './ai/router-token.js';
 import { createServer, startServer } from './api/server.js';
 
 // ============================================================================
@@ -35,6 +38,13 @@ import { createServer, startServer } from './api/server.js';
 //   Example: https://model-router.is.plugged.in
 // - MODEL_ROUTER_TOKEN: JWT token for Model Router authentication
 //   Issued by Station, can be revoked/regenerated from admin UI
+// - MODEL_ROUTER_TOKEN_FILE: Mounted token file (alternative to MODEL_ROUTER_TOKEN)
+//   Re-read when the token nears expiry or is rejected
+//
+// DIRECT PROVIDERS (SELF-HOSTED, WHEN NO MODEL ROUTER IS CONFIGURED):
+// - OPENAI_API_KEY / OPENAI_BASE_URL: OpenAI or an OpenAI-compatible local server
+// - ANTHROPIC_API_KEY: Anthropic
+// - GOOGLE_API_KEY: Gemini
 //
 // ============================================================================
 
@@ -52,6 +62,7 @@ const config = {
   // direct LLM API credentials.
   modelRouterUrl: process.env.MODEL_ROUTER_URL || '',
   modelRouterToken: process.env.MODEL_ROUTER_TOKEN || '',
+  modelRouterTokenSettings: getRouterTokenSettings(),
 
   // Compass-specific configuration (from template configurable section)
   // COMPASS_MODELS: Comma-separated list of model IDs
@@ -101,16 +112,32 @@ async function main(): Promise<void> {
   // Initialize Model Router client
   // The Model Router provides LLM access via JWT token authentication.
   // Token is issued by Station and can be revoked from admin UI.
+  // Without a router, self-hosted deployments call providers directly.
   console.log('[Init] Initializing model router client...');
-  if (config.modelRouterUrl && config.modelRouterToken) {
+  const directProviderConfig = getDirectProviderConfig();
+  const { tokenFile, warnBeforeSeconds, checkIntervalSeconds } = config.modelRouterTokenSettings;
+  if (config.modelRouterUrl && (config.modelRouterToken || tokenFile)) {
     initializeModelRouter({
       baseUrl: config.modelRouterUrl,
       agentId: config.agentId,
       token: config.modelRouterToken,
+      tokenFile,
+      stationUrl: config.stationUrl,
+      apiKey: config.apiKey,
+      tokenWarnBeforeSeconds: warnBeforeSeconds,
+      tokenCheckIntervalSeconds: checkIntervalSeconds,
+      retryPolicies: getModelRetryPolicyOverrides(),
     });
     console.log(`[Init] Model Router: ${config.modelRouterUrl}`);
+  } else if (directProviderConfig) {
+    const client = initializeDirectProviders({
+      ...directProviderConfig,
+      retryPolicies: getModelRetryPolicyOverrides(),
+    });
+    console.log(`[Init] Model Router not configured - using direct providers: ${client.getProviders().join(', ')}`);
   } else {
     console.warn('[Init] Model Router not configured - MODEL_ROUTER_URL and MODEL_ROUTER_TOKEN required');
+    console.warn('[Init] No direct provider keys set either (OPENAI_API_KEY, ANTHROPIC_API_KEY, GOOGLE_API_KEY)');
     console.warn('[Init] LLM features will not be available');
   }
 
@@ -130,7 +157,17 @@ async function main(): Promise<void> {
     // Adjust heartbeat mode based on state
     if (newState === 'DRAINING') {
       heartbeat.setMode('EMERGENCY'); // More frequent during drain
-    } else if (newState === 'ACTIVE') {
+    } else if (newState === 'ACTIVE' && !getRouterToken()?.isDegraded()) {
+      heartbeat.setMode('IDLE');
+    }
+  });
+
+  // Expired or revoked router token: degraded until a new token is available
+  const routerToken = getRouterToken();
+  routerToken?.onStateChange(() => {
+    if (routerToken.isDegraded()) {
+      heartbeat.setMode('EMERGENCY');
+    } else if (lifecycle.isOperational()) {
       heartbeat.setMode('IDLE');
     }
   });
@@ -149,6 +186,7 @@ async function main(): Promise<void> {
     // Stop telemetry
     heartbeat.stop();
     metrics.stop();
+    routerToken?.stop();
 
     // Transition to terminated
     await lifecycle.terminate('Graceful shutdown complete');
@@ -171,6 +209,10 @@ async function main(): Promise<void> {
     // Start telemetry
     heartbeat.start();
     metrics.start();
+    routerToken?.start();
+    if (routerToken?.isDegraded()) {
+      heartbeat.setMode('EMERGENCY');
+    }
 
     // Activate (PROVISIONED → ACTIVE)
     await lifecycle.activate();
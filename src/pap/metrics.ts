@@ -14,6 +14,7 @@
  */
 
 import * as os from 'os';
+import type { CacheSource } from '../ai/model-router.js';
 
 interface MetricsPayload {
   cpu_percent: number;
@@ -37,6 +38,7 @@ interface QueryMetrics {
   consensusResults: {
     unanimous: number;
     split: number;
+    plurality: number;
     no_consensus: number;
   };
   modelMetrics: Record<string, {
@@ -47,6 +49,35 @@ interface QueryMetrics {
   }>;
 }
 
+interface UsageMetrics {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  cachedCalls: number;
+  costByModel: Record<string, number>;
+}
+
+interface CacheMetrics {
+  hits: number;
+  misses: number;
+}
+
+interface CircuitMetrics {
+  // Times any circuit opened
+  openings: number;
+  // Latest state per model ('closed' | 'open' | 'half_open')
+  states: Record<string, string>;
+}
+
+interface SchedulerMetrics {
+  // Calls waiting for a slot / calls running (latest)
+  queueDepth: number;
+  inFlight: number;
+  // Calls that had to wait, and their total wait
+  queuedCalls: number;
+  totalQueueWaitMs: number;
+}
+
 export class MetricsCollector {
   private stationUrl: string;
   private agentId: string;
@@ -67,11 +98,41 @@ export class MetricsCollector {
     consensusResults: {
       unanimous: 0,
       split: 0,
+      plurality: 0,
       no_consensus: 0,
     },
     modelMetrics: {},
   };
 
+  // Token and cost accounting (router-billed spend)
+  private usageMetrics: UsageMetrics = {
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    cachedCalls: 0,
+    costByModel: {},
+  };
+
+  // Response cache metrics
+  private cacheMetrics: CacheMetrics = {
+    hits: 0,
+    misses: 0,
+  };
+
+  // Circuit breaker metrics
+  private circuitMetrics: CircuitMetrics = {
+    openings: 0,
+    states: {},
+  };
+
+  // Call scheduler metrics
+  private schedulerMetrics: SchedulerMetrics = {
+    queueDepth: 0,
+    inFlight: 0,
+    queuedCalls: 0,
+    totalQueueWaitMs: 0,
+  };
+
   // CPU tracking
   private lastCpuInfo: os.CpuInfo[] | null = null;
   private lastCpuTime: number = 0;
@@ -132,7 +193,7 @@ export class MetricsCollector {
   recordQuery(params: {
     success: boolean;
     latencyMs: number;
-    verdict?: 'unanimous' | 'split' | 'no_consensus';
+    verdict?: 'unanimous' | 'split' | 'plurality' | 'no_consensus';
     modelResults?: Array<{
       model: string;
       success: boolean;
@@ -177,13 +238,82 @@ export class MetricsCollector {
     }
   }
 
+  /**
+   * Record tokens and cost of a router call
+   */
+  recordUsage(params: {
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    cacheSource?: CacheSource;
+  }): void {
+    const usage = this.usageMetrics;
+    usage.promptTokens += params.promptTokens;
+    usage.completionTokens += params.completionTokens;
+    usage.costUsd = Math.round((usage.costUsd + params.costUsd) * 1e6) / 1e6;
+    usage.costByModel[params.model] =
+      Math.round(((usage.costByModel[params.model] ?? 0) + params.costUsd) * 1e6) / 1e6;
+    // Local cache hits are counted by recordCacheLookup
+    if (params.cacheSource === 'router') {
+      usage.cachedCalls++;
+    }
+  }
+
+  /**
+   * Record a response cache lookup
+   */
+  recordCacheLookup(hit: boolean): void {
+    if (hit) {
+      this.cacheMetrics.hits++;
+    } else {
+      this.cacheMetrics.misses++;
+    }
+  }
+
+  /**
+   * Record a circuit breaker state change
+   */
+  recordCircuitTransition(model: string, state: string): void {
+    this.circuitMetrics.states[model] = state;
+    if (state === 'open') {
+      this.circuitMetrics.openings++;
+    }
+  }
+
+  /**
+   * Record the call scheduler's queue depth and in-flight calls
+   */
+  recordSchedulerState(queueDepth: number, inFlight: number): void {
+    this.schedulerMetrics.queueDepth = queueDepth;
+    this.schedulerMetrics.inFlight = inFlight;
+  }
+
+  /**
+   * Record a call that waited in the scheduler queue
+   */
+  recordSchedulerWait(waitMs: number): void {
+    this.schedulerMetrics.queuedCalls++;
+    this.schedulerMetrics.totalQueueWaitMs += waitMs;
+  }
+
   /**
    * Get current metrics snapshot
    */
-  getMetrics(): QueryMetrics & { requestCount: number } {
+  getMetrics(): QueryMetrics & {
+    requestCount: number;
+    usage: UsageMetrics;
+    cache: CacheMetrics;
+    circuits: CircuitMetrics;
+    scheduler: SchedulerMetrics;
+  } {
     return {
       ...this.queryMetrics,
       requestCount: this.requestCount,
+      usage: this.usageMetrics,
+      cache: this.cacheMetrics,
+      circuits: this.circuitMetrics,
+      scheduler: this.schedulerMetrics,
     };
   }
 
@@ -291,8 +421,21 @@ export class MetricsCollector {
         consensus_rate: this.getConsensusRate(),
         unanimous_verdicts: this.queryMetrics.consensusResults.unanimous,
         split_verdicts: this.queryMetrics.consensusResults.split,
+        plurality_verdicts: this.queryMetrics.consensusResults.plurality,
         no_consensus_verdicts: this.queryMetrics.consensusResults.no_consensus,
         model_availability: JSON.stringify(this.getModelAvailability()),
+        total_cost_usd: this.usageMetrics.costUsd,
+        prompt_tokens: this.usageMetrics.promptTokens,
+        completion_tokens: this.usageMetrics.completionTokens,
+        cost_by_model: JSON.stringify(this.usageMetrics.costByModel),
+        cache_hits: this.cacheMetrics.hits,
+        cache_misses: this.cacheMetrics.misses,
+        circuit_openings: this.circuitMetrics.openings,
+        circuit_states: JSON.stringify(this.circuitMetrics.states),
+        router_queue_depth: this.schedulerMetrics.queueDepth,
+        router_in_flight: this.schedulerMetrics.inFlight,
+        router_queued_calls: this.schedulerMetrics.queuedCalls,
+        router_queue_wait_ms: this.schedulerMetrics.totalQueueWaitMs,
       },
     };
 
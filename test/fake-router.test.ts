@@ -0,0 +1,57 @@
+/**
+ * Smoke test: a jury query end to end against the fake Model Router
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setChatProvider } from '../src/ai/model-router.js';
+import { executeJuryQuery } from '../src/ai/consensus.js';
+import { createTestClient, startFakeRouter, RunningFakeRouter } from './helpers/fake-router.js';
+
+process.env.ENABLE_CIRCUIT_BREAKER = 'false';
+
+const JURY = ['gpt-4o', 'claude-3-5-sonnet-20241022', 'gemini-1.5-pro'];
+const ANSWER = 'Paris is the capital of France.';
+
+describe('executeJuryQuery through the fake router', () => {
+  let router: RunningFakeRouter;
+
+  before(async () => {
+    router = await startFakeRouter();
+    setChatProvider(createTestClient(router));
+  });
+
+  after(async () => {
+    await router.close();
+  });
+
+  it('returns a unanimous verdict when every juror gives the same answer', async () => {
+    await router.setScript({
+      defaults: { rules: [{ contains: 'capital of France', response: ANSWER }], costUsd: 0.002 },
+    });
+
+    const result = await executeJuryQuery({
+      question: 'What is the capital of France?',
+      models: JURY,
+      similarityStrategy: 'tfidf',
+      deliberationRounds: 0,
+      enableSynthesis: false,
+      enableClaims: false,
+      enableReflection: false,
+      enableMemory: false,
+      enableGuardrails: false,
+      enableBudget: false,
+    });
+
+    assert.equal(result.verdict, 'unanimous');
+    assert.equal(result.consensusAnswer, ANSWER);
+    assert.deepEqual(result.responses.filter(r => r.success).map(r => r.model).sort(), [...JURY].sort());
+    for (const model of JURY) {
+      assert.equal(await router.calls(model), 1);
+    }
+
+    // Costs come from the router's X-Request-Cost header
+    assert.equal(result.usage?.byStage.juror?.calls, 3);
+    assert.equal(result.usage?.totals.costUsd, 0.006);
+  });
+});
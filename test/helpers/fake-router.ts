@@ -0,0 +1,63 @@
+/**
+ * Test harness: the fake Model Router on a random local port
+ */
+
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createFakeRouter, FakeRouterScript } from '../../src/dev/fake-router.js';
+import { ModelRouterClient } from '../../src/ai/model-router.js';
+import type { RetryPolicyConfig } from '../../src/ai/retry-policy.js';
+
+export const TEST_TOKEN = 'test-token';
+
+export interface RunningFakeRouter {
+  url: string;
+  /** Replace the script and reset call counters */
+  setScript(script: FakeRouterScript): Promise<void>;
+  /** Chat calls received for a model */
+  calls(model: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+export async function startFakeRouter(script: FakeRouterScript = {}): Promise<RunningFakeRouter> {
+  const server: Server = createServer(createFakeRouter(script, { token: TEST_TOKEN }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    async setScript(next) {
+      await fetch(`${url}/__fake/script`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(next),
+      });
+    },
+    async calls(model) {
+      const { calls } = await (await fetch(`${url}/__fake/calls`)).json() as { calls: Record<string, number> };
+      return calls[model] ?? 0;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Router client for the fake router with short backoffs
+ */
+export function createTestClient(
+  router: RunningFakeRouter,
+  options: { retries?: number; retryPolicies?: Record<string, Partial<RetryPolicyConfig>> } = {}
+): ModelRouterClient {
+  return new ModelRouterClient({
+    baseUrl: router.url,
+    agentId: 'test-agent',
+    token: TEST_TOKEN,
+    timeout: 5000,
+    retries: options.retries ?? 2,
+    retryDelay: 10,
+    retryPolicies: options.retryPolicies,
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * Retry policy, driven through callWithRetries against the fake Model Router
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AuthenticationError,
+  BudgetExceededError,
+  ChatCompletionRequest,
+  ModelRouterError,
+  RateLimitError,
+} from '../src/ai/model-router.js';
+import { RetryBudget, RetryPolicy } from '../src/ai/retry-policy.js';
+import { createTestClient, startFakeRouter, RunningFakeRouter } from './helpers/fake-router.js';
+
+// Breaker state would carry over between tests that fail the same model
+process.env.ENABLE_CIRCUIT_BREAKER = 'false';
+// One call per model at a time, so a slot held through a backoff would block the next call
+process.env.ROUTER_MODEL_CONCURRENCY = JSON.stringify({ 'gpt-4o': 1 });
+
+const MODEL = 'gpt-4o';
+
+function chatRequest(): ChatCompletionRequest {
+  return { model: MODEL, messages: [{ role: 'user', content: 'What is the capital of France?' }] };
+}
+
+describe('callWithRetries', () => {
+  let router: RunningFakeRouter;
+
+  before(async () => {
+    router = await startFakeRouter();
+  });
+
+  after(async () => {
+    await router.close();
+  });
+
+  it('waits for Retry-After before retrying a rate limit', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [429], retryAfterSeconds: 1, responses: ['Paris.'] } } });
+    const client = createTestClient(router);
+
+    const startTime = Date.now();
+    const response = await client.chat(chatRequest());
+
+    assert.equal(response.choices[0].message.content, 'Paris.');
+    assert.ok(Date.now() - startTime >= 1000, 'retried before Retry-After elapsed');
+    assert.equal(await router.calls(MODEL), 2);
+  });
+
+  it('gives up when Retry-After exceeds maxRetryAfterMs', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [429], retryAfterSeconds: 5 } } });
+    const client = createTestClient(router, { retryPolicies: { [MODEL]: { maxRetryAfterMs: 2000 } } });
+
+    const startTime = Date.now();
+    await assert.rejects(client.chat(chatRequest()), RateLimitError);
+
+    assert.ok(Date.now() - startTime < 2000, 'waited for a Retry-After over the cap');
+    assert.equal(await router.calls(MODEL), 1);
+  });
+
+  for (const [status, errorClass] of [
+    [400, ModelRouterError],
+    [401, AuthenticationError],
+    [402, BudgetExceededError],
+  ] as const) {
+    it(`does not retry HTTP ${status}`, async () => {
+      await router.setScript({ models: { [MODEL]: { failures: [status, status, status] } } });
+      const client = createTestClient(router);
+
+      await assert.rejects(client.chat(chatRequest()), (error: unknown) => {
+        assert.ok(error instanceof errorClass);
+        assert.equal((error as ModelRouterError).statusCode, status);
+        return true;
+      });
+      assert.equal(await router.calls(MODEL), 1);
+    });
+  }
+
+  it('stops retrying once the query retry budget is used up', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [500, 500, 500, 500, 500] } } });
+    const client = createTestClient(router, { retries: 2 });
+    const retryBudget = new RetryBudget(1);
+
+    // One retry allowed: first attempt plus one retry
+    await assert.rejects(client.chat(chatRequest(), { retryBudget }), ModelRouterError);
+    assert.equal(await router.calls(MODEL), 2);
+    assert.equal(retryBudget.getRemaining(), 0);
+
+    // Another call of the same query gets no retries
+    await assert.rejects(client.chat(chatRequest(), { retryBudget }), ModelRouterError);
+    assert.equal(await router.calls(MODEL), 3);
+  });
+
+  it('stops waiting for a retry when the call is cancelled', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [429], retryAfterSeconds: 2, responses: ['Paris.'] } } });
+    const client = createTestClient(router);
+    const controller = new AbortController();
+    const reason = new Error('Caller went away');
+    setTimeout(() => controller.abort(reason), 200);
+
+    const startTime = Date.now();
+    await assert.rejects(client.chat(chatRequest(), { signal: controller.signal }), error => error === reason);
+
+    assert.ok(Date.now() - startTime < 1000, 'slept out the Retry-After delay after the abort');
+    assert.equal(await router.calls(MODEL), 1);
+  });
+
+  it('gives the scheduler slot back while waiting for Retry-After', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [429], retryAfterSeconds: 1, responses: ['Paris.'] } } });
+    const client = createTestClient(router);
+
+    const first = client.chat(chatRequest());
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const startTime = Date.now();
+    const second = await client.chat(chatRequest());
+
+    assert.equal(second.choices[0].message.content, 'Paris.');
+    assert.ok(Date.now() - startTime < 700, 'second call queued behind the first call\'s backoff');
+    assert.equal(second.pap_metadata?.queue_ms, 0);
+
+    const response = await first;
+    assert.equal(response.choices[0].message.content, 'Paris.');
+    assert.equal(await router.calls(MODEL), 3);
+  });
+
+  it('retries server errors up to maxRetries', async () => {
+    await router.setScript({ models: { [MODEL]: { failures: [500, 503], responses: ['Paris.'] } } });
+    const client = createTestClient(router, { retries: 2 });
+
+    const response = await client.chat(chatRequest());
+
+    assert.equal(response.choices[0].message.content, 'Paris.');
+    assert.equal(await router.calls(MODEL), 3);
+  });
+});
+
+describe('RetryPolicy backoff', () => {
+  it('keeps jittered delays between zero and the exponential step', () => {
+    const policy = new RetryPolicy({ maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, maxRetryAfterMs: 30000 });
+    const error = new ModelRouterError('Internal error', 500);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const ceiling = Math.min(1000, 100 * 2 ** attempt);
+      const delays = Array.from({ length: 200 }, () => policy.getRetryDelay(error, attempt));
+
+      for (const delay of delays) {
+        assert.ok(delay !== null && delay >= 0 && delay <= ceiling, `attempt ${attempt}: ${delay}ms outside [0, ${ceiling}]`);
+      }
+      // Full jitter spreads retries out instead of always waiting the full step
+      assert.ok(new Set(delays).size > 1, `attempt ${attempt}: delays are not jittered`);
+    }
+  });
+
+  it('stops after maxRetries', () => {
+    const policy = new RetryPolicy({ maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1000, maxRetryAfterMs: 30000 });
+
+    assert.equal(policy.getRetryDelay(new ModelRouterError('Internal error', 500), 2), null);
+  });
+});